@@ -1,7 +1,27 @@
 import * as faker from 'faker';
-import { describe, expect, it } from 'vitest';
-import { Radix } from '.';
-import type { IStore } from './types/store';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  compareCaseInsensitive,
+  compareCodePoints,
+  compareNatural,
+  decodeTuple,
+  encodeTuple,
+  extendedJsonCodec,
+  LockInProcess,
+  Radix,
+  StoreInFiles,
+  StoreInMemory as StoreMemory,
+  StoreInStorage,
+  testStore,
+} from '.';
+import type { RadixSub } from './sub';
+import type { FuzzyOptions } from './types/fuzzy';
+import type { Query } from './types/query';
+import type { IStore, JObject, JValue, StoreOp } from './types/store';
+import type { ChangeEvent } from './types/watch';
 
 class StoreInMemory implements IStore {
   private store = new Map<string, unknown>();
@@ -29,6 +49,56 @@ class StoreInMemory implements IStore {
   }
 }
 
+class StoreFailing extends StoreInMemory {
+  public failAfter = Infinity;
+
+  async set<T>(key: string, value: T) {
+    if (this.failAfter-- === 0) throw new Error('Store failure');
+    await super.set(key, value);
+  }
+}
+
+class StoreBatching extends StoreInMemory {
+  public batches: StoreOp[][] = [];
+
+  async batch(ops: StoreOp[]) {
+    this.batches.push(ops);
+    for (const op of ops) {
+      if (op.type === 'set') await this.set(op.key, op.value);
+      else await this.del(op.key);
+    }
+  }
+}
+
+// A connection to another store, as another process sharing it would have
+class StoreConnection implements IStore {
+  constructor(private store: IStore) {}
+
+  get<T extends JValue>(key: string) {
+    return this.store.get<T>(key);
+  }
+
+  set<T extends JValue>(key: string, value: T) {
+    return this.store.set(key, value);
+  }
+
+  del(key: string) {
+    return this.store.del(key);
+  }
+}
+
+async function keysOf(radix: Radix | RadixSub, query?: Query) {
+  const keys: string[] = [];
+  for await (const [key] of radix.loop(query)) keys.push(key);
+  return keys;
+}
+
+async function entriesOf(radix: Radix | RadixSub, query?: Query) {
+  const entries: [string, unknown][] = [];
+  for await (const entry of radix.loop(query)) entries.push(entry);
+  return entries;
+}
+
 describe('radix', () => {
   const SKIP_LARGE_DATA = false;
 
@@ -312,4 +382,2340 @@ describe('radix', () => {
     await radix.del(key2);
     expect(await radix.get(key1)).toBeTruthy();
   });
+
+  it('loops with count filter across branches', async () => {
+    const radix = new Radix(new StoreInMemory());
+    for (const key of ['a', 'ba', 'bb', 'c']) await radix.set(key, 0);
+    const keysFound: string[] = [];
+    for await (const [key] of radix.loop({ count: 2 })) {
+      keysFound.push(key);
+    }
+    expect(keysFound).toEqual(['a', 'ba']);
+  });
+
+  it('keeps sibling keys when deleting from root', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await radix.set('a', 1);
+    await radix.set('b', 2);
+    expect(await radix.del('a')).toBe(true);
+    expect(await radix.get('b')).toBe(2);
+    expect(await radix.del('b')).toBe(true);
+    expect(await radix.has('b')).toBe(false);
+  });
+});
+
+describe('radix batch', () => {
+  it('applies all operations', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await radix.set('cow', 1);
+    await radix.batch([
+      { type: 'set', key: 'co', value: 2 },
+      { type: 'set', key: 'coweb', value: 3 },
+      { type: 'del', key: 'cow' },
+    ]);
+    expect(await radix.get('co')).toBe(2);
+    expect(await radix.get('coweb')).toBe(3);
+    expect(await radix.has('cow')).toBe(false);
+  });
+
+  it('writes shared nodes once through the store batch hook', async () => {
+    const store = new StoreBatching();
+    const radix = new Radix(store);
+    await radix.batch([
+      { type: 'set', key: 'a', value: 1 },
+      { type: 'set', key: 'b', value: 2 },
+      { type: 'set', key: 'c', value: 3 },
+    ]);
+    expect(store.batches).toHaveLength(1);
+    expect(store.batches[0].map(op => op.key)).toEqual(['_']);
+  });
+
+  it('rolls back on store failure', async () => {
+    const store = new StoreFailing();
+    const radix = new Radix(store);
+    await radix.set('fan', 1);
+    await radix.set('factorial', 2);
+    const snapshot = store.toString();
+    store.failAfter = 2;
+    await expect(
+      radix.batch([
+        { type: 'set', key: 'factory', value: 3 },
+        { type: 'set', key: 'cow', value: 4 },
+      ]),
+    ).rejects.toThrow('Store failure');
+    store.failAfter = Infinity;
+    expect(store.toString()).toEqual(snapshot);
+    await radix.set('factory', 3);
+    expect(await radix.get('fan')).toBe(1);
+    expect(await radix.get('factorial')).toBe(2);
+    expect(await radix.get('factory')).toBe(3);
+  });
+});
+
+describe('radix transaction', () => {
+  it('reads its own writes', async () => {
+    const radix = new Radix(new StoreInMemory());
+    const result = await radix.transaction(async tx => {
+      await tx.set('cow', 1);
+      expect(await tx.get('cow')).toBe(1);
+      expect(await tx.has('cow')).toBe(true);
+      return tx.del('cow');
+    });
+    expect(result).toBe(true);
+    expect(await radix.has('cow')).toBe(false);
+  });
+
+  it('discards writes when the callback throws', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    await radix.set('cow', 1);
+    const snapshot = store.toString();
+    await expect(
+      radix.transaction(async tx => {
+        await tx.set('coweb', 2);
+        await tx.del('cow');
+        throw new Error('Abort');
+      }),
+    ).rejects.toThrow('Abort');
+    expect(store.toString()).toEqual(snapshot);
+    expect(await radix.get('cow')).toBe(1);
+  });
+});
+
+describe('radix named trees', () => {
+  it('keeps trees with different names apart', async () => {
+    const store = new StoreInMemory();
+    const users = new Radix(store, { name: 'users' });
+    const posts = new Radix(store, { name: 'posts' });
+    const main = new Radix(store);
+    await users.set('cow', 1);
+    await users.set('coweb', 2);
+    await posts.set('cow', 3);
+    await posts.set('combo', 4);
+    await main.set('cow', 5);
+    expect(await users.get('cow')).toBe(1);
+    expect(await posts.get('cow')).toBe(3);
+    expect(await main.get('cow')).toBe(5);
+    expect(await users.has('combo')).toBe(false);
+    expect(await posts.del('cow')).toBe(true);
+    expect(await users.get('cow')).toBe(1);
+    const keys: string[] = [];
+    for await (const [key] of users.loop()) keys.push(key);
+    expect(keys).toEqual(['cow', 'coweb']);
+    expect(
+      JSON.parse(store.toString(true)).filter((key: string) =>
+        key.startsWith('users:'),
+      ),
+    ).toEqual(['users:_', 'users:#', 'users:0']);
+  });
+});
+
+describe('radix sub', () => {
+  it('prefixes keys', async () => {
+    const radix = new Radix(new StoreInMemory());
+    const users = radix.sub('users/');
+    await users.set('ann', 1);
+    await users.set('bob', 2);
+    await radix.set('posts/1', 3);
+    expect(await radix.get('users/ann')).toBe(1);
+    expect(await users.get('bob')).toBe(2);
+    expect(await users.has('ann')).toBe(true);
+    expect(await users.has('posts/1')).toBe(false);
+    expect(await users.del('bob')).toBe(true);
+    expect(await radix.has('users/bob')).toBe(false);
+  });
+
+  it('loops over own keys', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await radix.set('users', 0);
+    await radix.set('users/ann', 1);
+    await radix.set('users/bob', 2);
+    await radix.set('users/carl', 3);
+    await radix.set('usersa', 4);
+    const users = radix.sub('users/');
+    const entries: [string, number][] = [];
+    for await (const entry of users.loop<number>({ gt: 'ann', sort: -1 })) {
+      entries.push(entry);
+    }
+    expect(entries).toEqual([
+      ['carl', 3],
+      ['bob', 2],
+    ]);
+    const keys: string[] = [];
+    for await (const [key] of users.sub('b').loop()) keys.push(key);
+    expect(keys).toEqual(['ob']);
+  });
+
+  it('resumes after and before own keys', async () => {
+    const radix = new Radix(new StoreInMemory());
+    for (const key of ['a', 'b', 'c']) await radix.sub('users/').set(key, 0);
+    await radix.set('posts/1', 0);
+    const users = radix.sub('users/');
+    expect(await keysOf(users, { after: 'a' })).toEqual(['b', 'c']);
+    expect(await keysOf(users, { before: 'c' })).toEqual(['a', 'b']);
+    expect(await keysOf(users, { after: 'c', sort: -1 })).toEqual(['b', 'a']);
+  });
+
+  it('matches patterns against own keys', async () => {
+    const radix = new Radix(new StoreInMemory());
+    const users = radix.sub('users/');
+    for (const key of ['ann', 'bob', 'bob/posts']) await users.set(key, 0);
+    await radix.set('posts/bob', 0);
+    expect(await keysOf(users, { glob: '*' })).toEqual(['ann', 'bob']);
+    expect(await keysOf(users, { glob: 'b*/**' })).toEqual(['bob/posts']);
+    expect(await keysOf(users, { match: /^b/ })).toEqual(['bob', 'bob/posts']);
+    expect(await keysOf(users, { match: /^b/, count: 1 })).toEqual(['bob']);
+    expect(await keysOf(users, { contains: 's' })).toEqual(['bob/posts']);
+    expect(await keysOf(users, { suffix: '/bob' })).toEqual([]);
+    expect(
+      await keysOf(users, {
+        where: (value, key) => value === 0 && key.startsWith('a'),
+      }),
+    ).toEqual(['ann']);
+    await radix.set('abc/x', 0);
+    await radix.set('a*?/y', 0);
+    expect(await keysOf(radix.sub('a*?/'), { glob: '*' })).toEqual(['y']);
+  });
+});
+
+describe('radix node ids', () => {
+  it('reuses freed node ids across instances', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    await radix.set('fan', 1);
+    await radix.set('factorial', 2);
+    await radix.set('factory', 3);
+    expect(await store.get('#')).toBe(2);
+    await radix.del('factory');
+    expect(await store.get('!')).toEqual(['1']);
+    await new Radix(store).set('factory', 4);
+    expect(await store.get('#')).toBe(2);
+    expect(await store.get('!')).toEqual([]);
+    expect(await radix.get('factory')).toBe(4);
+  });
+
+  it('compacts nodes', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    const keys = ['co', 'coin', 'coinbase', 'community', 'cow', 'coweb'];
+    for (const key of keys) await radix.set(key, key);
+    await radix.del('coin');
+    await radix.del('community');
+    await store.set('z', [['orphan', ['1']]]);
+    await store.set('#', 36);
+    expect(await radix.compact()).toEqual({
+      nodes: 2,
+      orphans: 1,
+      reclaimed: 34,
+    });
+    expect(JSON.parse(store.toString(true)).sort()).toEqual(
+      ['#', '_', '0', '1'].sort(),
+    );
+    expect(await store.get('#')).toBe(2);
+    const found: string[] = [];
+    for await (const [key, value] of radix.loop<string>()) {
+      expect(value).toBe(key);
+      found.push(key);
+    }
+    expect(found).toEqual(['co', 'coinbase', 'cow', 'coweb']);
+    await radix.set('coinage', 'coinage');
+    expect(await store.get('#')).toBe(3);
+    expect(await radix.get('coinbase')).toBe('coinbase');
+  });
+});
+
+describe('radix verify', () => {
+  async function fill(radix: Radix) {
+    for (const key of ['co', 'coin', 'coinbase', 'cow', 'coweb', 'dog']) {
+      await radix.set(key, key);
+    }
+  }
+
+  it('reports a healthy tree', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await fill(radix);
+    await radix.del('coin');
+    expect(await radix.verify()).toEqual({
+      ok: true,
+      nodes: 2,
+      keys: 5,
+      issues: [],
+      repaired: false,
+    });
+    expect((await radix.repair()).repaired).toBe(false);
+  });
+
+  it('reports a new tree as healthy', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    expect(await radix.verify()).toEqual({
+      ok: true,
+      nodes: 0,
+      keys: 0,
+      issues: [],
+      repaired: false,
+    });
+    expect((await radix.repair()).repaired).toBe(false);
+    expect(store.toString(true)).toBe('[]');
+  });
+
+  it('reports and repairs structural problems', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    await fill(radix);
+    await store.set('_', [
+      ['dog', ['"dog"']],
+      ['co', '0'],
+      ['e', '9'],
+      ['f', ['{']],
+    ]);
+    await store.set('z', [['orphan', ['1']]]);
+    await store.set('#', 36);
+    const report = await radix.verify();
+    expect(report.ok).toBe(false);
+    expect(report.issues).toEqual([
+      { type: 'unsorted', node: '_', key: 'co' },
+      { type: 'dangling', node: '9', key: 'e' },
+      { type: 'unparseable', node: '_', key: 'f' },
+      { type: 'unreachable', node: 'z' },
+    ]);
+    const repaired = await radix.repair();
+    expect(repaired).toMatchObject({ repaired: true, keys: 6 });
+    expect(repaired.issues).toEqual(report.issues);
+    expect((await radix.verify()).ok).toBe(true);
+    expect(await store.get('z')).toBeUndefined();
+    const found: string[] = [];
+    for await (const [key, value] of radix.loop<string>()) {
+      expect(value).toBe(key);
+      found.push(key);
+    }
+    expect(found).toEqual(['co', 'coin', 'coinbase', 'cow', 'coweb', 'dog']);
+  });
+
+  it('reports overflowing and collapsible nodes', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    await store.set('_', [['a', '5']]);
+    await store.set('5', [['b', ['1']]]);
+    expect((await radix.verify()).issues).toEqual([
+      { type: 'overflow', node: '5', key: 'a' },
+      { type: 'collapsible', node: '5', key: 'a' },
+    ]);
+    await radix.repair();
+    expect(await store.get('_')).toEqual([['ab', ['1']]]);
+    expect(await radix.get('ab')).toBe(1);
+  });
+});
+
+describe('radix count', () => {
+  async function fill(radix: Radix, size = 300) {
+    const keys = new Set<string>();
+    for (let i = 0; i < size; ++i) {
+      const length = i % 6;
+      const key = Math.random()
+        .toString(36)
+        .slice(2, 3 + length);
+      await radix.set(key, i);
+      keys.add(key);
+    }
+    return [...keys].sort();
+  }
+
+  const queries = [
+    undefined,
+    { prefix: 'a' },
+    { gt: 'b' },
+    { gte: 'c1', lt: 'k' },
+    { lte: 'm5', prefixNot: 'f' },
+    { prefixSome: ['x', 'y', 'z0'] },
+    { gt: 'a', count: 3 },
+  ];
+
+  it('counts matching keys with and without branch counts', async () => {
+    for (const counts of [false, true]) {
+      const radix = new Radix(new StoreInMemory(), { counts });
+      await fill(radix);
+      for (const query of queries) {
+        const keys: string[] = [];
+        for await (const [key] of radix.loop(query)) keys.push(key);
+        expect(await radix.count(query)).toBe(keys.length);
+      }
+    }
+  });
+
+  it('keeps branch counts on set and del', async () => {
+    const radix = new Radix(new StoreInMemory(), { counts: true });
+    const keys = await fill(radix);
+    for (const key of keys.slice(0, 100)) await radix.del(key);
+    await radix.set(keys[0], 'back');
+    const report = await radix.verify();
+    expect(report.ok).toBe(true);
+    expect(await radix.count()).toBe(keys.length - 99);
+  });
+
+  it('skips branches within the query', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store, { counts: true });
+    for (const key of ['aa', 'ab', 'ac', 'ad', 'b']) await radix.set(key, 0);
+    const get = store.get.bind(store);
+    const paths: string[] = [];
+    store.get = async key => {
+      paths.push(key);
+      return get(key);
+    };
+    expect(await radix.count({ prefix: 'a' })).toBe(4);
+    // The expiry tree, empty here, tells the expired keys within the branch
+    expect(paths).toEqual(['_', '$:expiry:_']);
+  });
+
+  it('adds branch counts on compaction', async () => {
+    const store = new StoreInMemory();
+    const keys = await fill(new Radix(store));
+    const radix = new Radix(store, { counts: true });
+    await radix.compact();
+    const root = (await store.get<[string, unknown, number?][]>('_'))!;
+    expect(root.filter(([, v]) => !Array.isArray(v))).not.toHaveLength(0);
+    for (const [, v, c] of root) {
+      expect(Array.isArray(v) || c !== undefined).toBe(true);
+    }
+    expect(await radix.count()).toBe(keys.length);
+  });
+
+  it('ranks keys and finds keys by position', async () => {
+    for (const counts of [false, true]) {
+      const radix = new Radix(new StoreInMemory(), { counts });
+      const keys = await fill(radix, 100);
+      for (let i = 0; i < keys.length; i += 7) {
+        expect(await radix.rank(keys[i])).toBe(i);
+        expect((await radix.at(i))?.[0]).toBe(keys[i]);
+      }
+      expect(await radix.rank('zzzzzzzz')).toBe(keys.length);
+      expect(await radix.at(keys.length)).toBeUndefined();
+      expect(await radix.at(-1)).toBeUndefined();
+    }
+  });
+});
+
+describe('radix page', () => {
+  async function fill(radix: Radix) {
+    for (const key of ['a', 'b', 'ba', 'bb', 'bc', 'c', 'ca', 'd']) {
+      await radix.set(key, key);
+    }
+  }
+
+  async function drain(radix: Radix, query: Query) {
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await radix.page<string>(query, cursor);
+      pages.push(page.items.map(([key]) => key));
+      cursor = page.next;
+    } while (cursor);
+    return pages;
+  }
+
+  it('loops with after and before cursors', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await fill(radix);
+    const keysFound: string[] = [];
+    for await (const [key] of radix.loop({ after: 'b', before: 'ca' })) {
+      keysFound.push(key);
+    }
+    expect(keysFound).toEqual(['ba', 'bb', 'bc', 'c']);
+    keysFound.length = 0;
+    for await (const [key] of radix.loop({ after: 'c', sort: -1 })) {
+      keysFound.push(key);
+    }
+    expect(keysFound).toEqual(['bc', 'bb', 'ba', 'b', 'a']);
+  });
+
+  it('pages through keys', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await fill(radix);
+    expect(await drain(radix, { count: 3 })).toEqual([
+      ['a', 'b', 'ba'],
+      ['bb', 'bc', 'c'],
+      ['ca', 'd'],
+    ]);
+    expect(await drain(radix, { count: 4, lt: 'd' })).toEqual([
+      ['a', 'b', 'ba', 'bb'],
+      ['bc', 'c', 'ca'],
+    ]);
+    expect(await drain(radix, { count: 2, sort: -1, lt: 'c' })).toEqual([
+      ['bc', 'bb'],
+      ['ba', 'b'],
+      ['a'],
+    ]);
+    expect(await drain(radix, { count: 4, prefix: 'b' })).toEqual([
+      ['b', 'ba', 'bb', 'bc'],
+    ]);
+  });
+
+  it('returns empty pages for no count', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await fill(radix);
+    expect(await radix.page({ count: 0 })).toEqual({ items: [] });
+    const sorted = new Radix(new StoreInMemory(), { compare: compareNatural });
+    await fill(sorted);
+    expect(await sorted.page({ count: 0 })).toEqual({ items: [] });
+  });
+
+  it('resumes after changes between pages', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await fill(radix);
+    const first = await radix.page({ count: 3, sort: -1 });
+    expect(first.items.map(([key]) => key)).toEqual(['d', 'ca', 'c']);
+    await radix.del('c');
+    await radix.del('bc');
+    await radix.set('cb', 'cb');
+    await radix.set('bd', 'bd');
+    const second = await radix.page({ count: 3, sort: -1 }, first.next);
+    expect(second.items.map(([key]) => key)).toEqual(['bd', 'bb', 'ba']);
+  });
+
+  it('rejects invalid cursors', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await expect(radix.page({}, '!')).rejects.toThrow('Invalid cursor');
+  });
+});
+
+describe('radix range deletion', () => {
+  async function fill(radix: Radix) {
+    const keys = new Set<string>();
+    for (let i = 0; i < 300; ++i) {
+      const key = Math.random().toString(36).slice(2, 8);
+      await radix.set(key, key);
+      keys.add(key);
+    }
+    return [...keys].sort();
+  }
+
+  it('deletes keys by prefix', async () => {
+    const radix = new Radix(new StoreInMemory(), { counts: true });
+    const keys = await fill(radix);
+    const prefix = keys[100].slice(0, 1);
+    const left = keys.filter(key => !key.startsWith(prefix));
+    expect(await radix.delPrefix(prefix)).toBe(keys.length - left.length);
+    expect(await keysOf(radix)).toEqual(left);
+    expect((await radix.verify()).ok).toBe(true);
+    expect(await radix.count()).toBe(left.length);
+  });
+
+  it('deletes keys by query', async () => {
+    const radix = new Radix(new StoreInMemory(), { counts: true });
+    const keys = await fill(radix);
+    const [gte, lt] = [keys[50], keys[250]];
+    const left = keys.filter(key => key < gte || key >= lt);
+    expect(await radix.delRange({ gte, lt })).toBe(200);
+    expect(await keysOf(radix)).toEqual(left);
+    expect((await radix.verify()).ok).toBe(true);
+    expect(await radix.count()).toBe(left.length);
+  });
+
+  it('unlinks whole branches and frees their nodes', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    for (const key of ['co', 'coin', 'coinbase', 'cow', 'coweb', 'dog']) {
+      await radix.set(key, key);
+    }
+    expect(await radix.delPrefix('co')).toBe(5);
+    expect(await store.get('_')).toEqual([['dog', ['"dog"']]]);
+    expect((await store.get<string[]>('!') ?? []).sort()).toEqual([
+      '0',
+      '1',
+      '2',
+    ]);
+    expect(await radix.delPrefix('x')).toBe(0);
+    expect(await radix.delPrefix('')).toBe(1);
+    expect(await keysOf(radix)).toEqual([]);
+  });
+
+  it('collapses branches left with one entry', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    for (const key of ['fan', 'factorial', 'factory', 'fax']) {
+      await radix.set(key, key);
+    }
+    expect(await radix.delRange({ prefixSome: ['fact', 'fax'] })).toBe(3);
+    expect(await store.get('_')).toEqual([['fan', ['"fan"']]]);
+    expect((await radix.verify()).ok).toBe(true);
+  });
+});
+
+describe('radix query operators', () => {
+  const keys = [
+    'users/ann',
+    'users/ann/posts/1',
+    'users/ann/posts/2/comments/1',
+    'users/bob/posts/1',
+    'users/bob/tags',
+    "users/it's",
+    'users/x\\y',
+  ];
+
+  async function setup() {
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    for (const key of keys) await radix.set(key, 0);
+    const get = store.get.bind(store);
+    const paths = new Set<string>();
+    store.get = async key => {
+      paths.add(key);
+      return get(key);
+    };
+    return { radix, paths };
+  }
+
+  it('filters by suffix and substring', async () => {
+    const { radix } = await setup();
+    expect(await keysOf(radix, { suffix: '/1' })).toEqual([
+      'users/ann/posts/1',
+      'users/ann/posts/2/comments/1',
+      'users/bob/posts/1',
+    ]);
+    expect(await keysOf(radix, { contains: 'bob' })).toEqual([
+      'users/bob/posts/1',
+      'users/bob/tags',
+    ]);
+  });
+
+  it('filters by glob pattern', async () => {
+    const { radix, paths } = await setup();
+    expect(await keysOf(radix, { glob: 'users/*/posts/*' })).toEqual([
+      'users/ann/posts/1',
+      'users/bob/posts/1',
+    ]);
+    expect(await keysOf(radix, { glob: 'users/ann/**' })).toEqual([
+      'users/ann/posts/1',
+      'users/ann/posts/2/comments/1',
+    ]);
+    expect(await keysOf(radix, { glob: 'users/a??' })).toEqual(['users/ann']);
+    expect(await keysOf(radix, { glob: "users/it's" })).toEqual(["users/it's"]);
+    expect(await keysOf(radix, { glob: 'users/x\\\\y' })).toEqual([
+      'users/x\\y',
+    ]);
+    await keysOf(radix, {});
+    const all = paths.size;
+    paths.clear();
+    expect(await keysOf(radix, { glob: 'users/b*/tags' })).toEqual([
+      'users/bob/tags',
+    ]);
+    expect(paths.size).toBeLessThan(all);
+  });
+
+  it('filters by regular expression', async () => {
+    const { radix, paths } = await setup();
+    expect(await keysOf(radix, { match: /\/\d$/ })).toEqual([
+      'users/ann/posts/1',
+      'users/ann/posts/2/comments/1',
+      'users/bob/posts/1',
+    ]);
+    const all = paths.size;
+    paths.clear();
+    expect(await keysOf(radix, { match: /^users\/bob\/t/ })).toEqual([
+      'users/bob/tags',
+    ]);
+    expect(paths.size).toBeLessThan(all);
+    expect(await keysOf(radix, { match: /^users\/ann$|tags/ })).toEqual([
+      'users/ann',
+      'users/bob/tags',
+    ]);
+  });
+
+  it('counts and deletes by pattern', async () => {
+    const { radix } = await setup();
+    expect(await radix.count({ glob: 'users/**/1' })).toBe(3);
+    expect(await radix.delRange({ glob: 'users/ann/**' })).toBe(2);
+    expect(await keysOf(radix, { prefix: 'users/ann' })).toEqual(['users/ann']);
+  });
+
+  it('escapes special characters in bounds', async () => {
+    const { radix } = await setup();
+    expect(
+      await keysOf(radix, { gte: "users/it's", prefix: 'users/' }),
+    ).toEqual(["users/it's", 'users/x\\y']);
+    expect(await keysOf(radix, { prefix: 'users/x\\' })).toEqual([
+      'users/x\\y',
+    ]);
+  });
+});
+
+describe('radix value queries', () => {
+  const tickets = {
+    't/1': { status: 'open', votes: 3, owner: { name: 'ann' }, tags: ['ui'] },
+    't/2': { status: 'closed', votes: 7, owner: { name: 'bob' } },
+    't/3': { status: 'open', votes: 10, owner: { name: 'bob' }, tags: [] },
+    't/4': { status: 'open', votes: 1, tags: ['ui', 'api'] },
+    't/5': { status: 'stale', votes: '5' },
+  };
+
+  async function setup() {
+    const radix = new Radix(new StoreInMemory());
+    for (const [key, value] of Object.entries(tickets)) {
+      await radix.set(key, value);
+    }
+    return radix;
+  }
+
+  it('filters by value conditions', async () => {
+    const radix = await setup();
+    expect(await keysOf(radix, { where: { status: 'open' } })).toEqual([
+      't/1',
+      't/3',
+      't/4',
+    ]);
+    expect(
+      await keysOf(radix, { where: { status: { in: ['closed', 'stale'] } } }),
+    ).toEqual(['t/2', 't/5']);
+    expect(
+      await keysOf(radix, { where: { votes: { gt: 3, lte: 10 } } }),
+    ).toEqual(['t/2', 't/3']);
+    expect(await keysOf(radix, { where: { 'owner.name': 'bob' } })).toEqual([
+      't/2',
+      't/3',
+    ]);
+    expect(
+      await keysOf(radix, { where: { owner: { exists: false } } }),
+    ).toEqual(['t/4', 't/5']);
+    expect(
+      await keysOf(radix, { where: { tags: { eq: ['ui', 'api'] } } }),
+    ).toEqual(['t/4']);
+    expect(await keysOf(radix, { where: { 'tags.0': { ne: 'ui' } } })).toEqual([
+      't/2',
+      't/3',
+      't/5',
+    ]);
+    expect(
+      await keysOf(radix, {
+        where: (value, key) => key !== 't/1' && !!(value as JObject).tags,
+      }),
+    ).toEqual(['t/3', 't/4']);
+  });
+
+  it('limits the count to matching values', async () => {
+    const radix = await setup();
+    expect(
+      await keysOf(radix, { where: { status: 'open' }, count: 2, sort: -1 }),
+    ).toEqual(['t/4', 't/3']);
+    expect(await radix.count({ where: { status: 'open' } })).toBe(3);
+    const page = await radix.page({ where: { status: 'open' }, count: 2 });
+    expect(page.items.map(([key]) => key)).toEqual(['t/1', 't/3']);
+    expect(page.next).toBeDefined();
+  });
+
+  it('projects values', async () => {
+    const radix = await setup();
+    const found: [string, unknown][] = [];
+    for await (const entry of radix.loop({
+      prefix: 't/',
+      where: { votes: { gte: 7 } },
+      select: ['votes', 'owner.name', 'tags'],
+    })) {
+      found.push(entry);
+    }
+    expect(found).toEqual([
+      ['t/2', { votes: 7, owner: { name: 'bob' } }],
+      ['t/3', { votes: 10, owner: { name: 'bob' }, tags: [] }],
+    ]);
+  });
+
+  it('deletes by value conditions', async () => {
+    const radix = await setup();
+    expect(await radix.delRange({ where: { status: 'open' } })).toBe(3);
+    expect(await keysOf(radix, {})).toEqual(['t/2', 't/5']);
+  });
+});
+
+describe('radix secondary indexes', () => {
+  interface User extends JObject {
+    email: string;
+    tags: string[];
+  }
+
+  function setup(store = new StoreInMemory()) {
+    const radix = new Radix(store);
+    radix.defineIndex<User>('email', user => user.email);
+    radix.defineIndex<User>('tags', user => user.tags);
+    return radix;
+  }
+
+  async function find(radix: Radix, name: string, query?: Query) {
+    const found: [string, string][] = [];
+    for await (const [key, , indexKey] of radix.loopIndex(name, query)) {
+      found.push([indexKey, key]);
+    }
+    return found;
+  }
+
+  it('keeps indexes up to date', async () => {
+    const radix = setup();
+    await radix.set('u/1', { email: 'c@x', tags: ['a', 'b'] });
+    await radix.set('u/2', { email: 'a@x', tags: ['b', 'b'] });
+    await radix.set('u/3', { email: 'b@x', tags: [] });
+    expect(await find(radix, 'email')).toEqual([
+      ['a@x', 'u/2'],
+      ['b@x', 'u/3'],
+      ['c@x', 'u/1'],
+    ]);
+    expect(await find(radix, 'tags')).toEqual([
+      ['a', 'u/1'],
+      ['b', 'u/1'],
+      ['b', 'u/2'],
+    ]);
+    await radix.set('u/1', { email: 'd@x', tags: ['b', 'c'] });
+    await radix.del('u/2');
+    expect(await find(radix, 'email')).toEqual([
+      ['b@x', 'u/3'],
+      ['d@x', 'u/1'],
+    ]);
+    expect(await find(radix, 'tags')).toEqual([
+      ['b', 'u/1'],
+      ['c', 'u/1'],
+    ]);
+  });
+
+  it('updates indexes within batches, transactions and range deletion', async () => {
+    const radix = setup();
+    await radix.batch([
+      { type: 'set', key: 'u/1', value: { email: 'a@x', tags: ['t'] } },
+      { type: 'set', key: 'u/2', value: { email: 'b@x', tags: ['t'] } },
+      { type: 'set', key: 'v/1', value: { email: 'c@x', tags: [] } },
+    ]);
+    await radix.transaction(async tx => {
+      await tx.del('u/1');
+      await tx.set('u/3', { email: 'a@x', tags: [] });
+    });
+    await expect(
+      radix.transaction(async tx => {
+        await tx.set('u/4', { email: 'd@x', tags: [] });
+        throw new Error('abort');
+      }),
+    ).rejects.toThrow('abort');
+    expect(await find(radix, 'email')).toEqual([
+      ['a@x', 'u/3'],
+      ['b@x', 'u/2'],
+      ['c@x', 'v/1'],
+    ]);
+    expect(await radix.delPrefix('u/')).toBe(2);
+    expect(await find(radix, 'email')).toEqual([['c@x', 'v/1']]);
+    expect(await find(radix, 'tags')).toEqual([]);
+  });
+
+  it('loops by index key bounds and value conditions', async () => {
+    const radix = setup();
+    for (const [key, email] of [
+      ['u/1', 'a'],
+      ['u/2', 'b'],
+      ['u/3', 'b'],
+      ['u/4', 'c'],
+      ['u/5', 'cc'],
+    ]) {
+      await radix.set(key, { email, tags: [key] });
+    }
+    expect(await find(radix, 'email', { gt: 'a', lte: 'c' })).toEqual([
+      ['b', 'u/2'],
+      ['b', 'u/3'],
+      ['c', 'u/4'],
+    ]);
+    expect(await find(radix, 'email', { prefix: 'c', sort: -1 })).toEqual([
+      ['cc', 'u/5'],
+      ['c', 'u/4'],
+    ]);
+    expect(await find(radix, 'email', { gte: 'b', count: 1 })).toEqual([
+      ['b', 'u/2'],
+    ]);
+    expect(
+      await find(radix, 'email', { where: { 'tags.0': { ne: 'u/2' } } }),
+    ).toEqual([
+      ['a', 'u/1'],
+      ['b', 'u/3'],
+      ['c', 'u/4'],
+      ['cc', 'u/5'],
+    ]);
+    for await (const [, value] of radix.loopIndex('email', {
+      prefix: 'a',
+      select: ['email'],
+    })) {
+      expect(value).toEqual({ email: 'a' });
+    }
+  });
+
+  it('rebuilds indexes defined after the data', async () => {
+    const store = new StoreInMemory();
+    const plain = new Radix(store);
+    await plain.set('u/1', { email: 'b@x', tags: ['t'] });
+    await plain.set('u/2', { email: 'a@x', tags: ['t', 's'] });
+    const radix = setup(store);
+    expect(await find(radix, 'email')).toEqual([]);
+    expect(await radix.rebuildIndex('email')).toBe(2);
+    expect(await radix.rebuildIndex('tags')).toBe(3);
+    expect(await radix.rebuildIndex('email')).toBe(2);
+    expect(await find(radix, 'email')).toEqual([
+      ['a@x', 'u/2'],
+      ['b@x', 'u/1'],
+    ]);
+    await expect(radix.rebuildIndex('name')).rejects.toThrow(
+      'Unknown index: name',
+    );
+  });
+});
+
+describe('radix watch', () => {
+  it('notifies of committed changes', async () => {
+    const radix = new Radix(new StoreInMemory());
+    const events: ChangeEvent[] = [];
+    const unwatch = radix.watch({ prefix: 'a/' }, event => events.push(event));
+    await radix.set('a/1', 1);
+    await radix.set('b/1', 1);
+    await radix.set('a/1', 2);
+    await radix.del('a/2');
+    await radix.del('a/1');
+    await radix.batch([
+      { type: 'set', key: 'a/2', value: 2 },
+      { type: 'set', key: 'a/3', value: 3 },
+    ]);
+    await radix.delPrefix('a/');
+    unwatch();
+    await radix.set('a/4', 4);
+    expect(events).toEqual([
+      { type: 'set', key: 'a/1', value: 1, oldValue: undefined },
+      { type: 'set', key: 'a/1', value: 2, oldValue: 1 },
+      { type: 'del', key: 'a/1', value: undefined, oldValue: 2 },
+      { type: 'set', key: 'a/2', value: 2, oldValue: undefined },
+      { type: 'set', key: 'a/3', value: 3, oldValue: undefined },
+      { type: 'del', key: 'a/2', value: undefined, oldValue: 2 },
+      { type: 'del', key: 'a/3', value: undefined, oldValue: 3 },
+    ]);
+  });
+
+  it('filters by values and projects them', async () => {
+    const radix = new Radix(new StoreInMemory());
+    const events: ChangeEvent[] = [];
+    radix.watch({ where: { status: 'open' }, select: ['status'] }, event =>
+      events.push(event),
+    );
+    await radix.set('t/1', { status: 'open', votes: 1 });
+    await radix.set('t/2', { status: 'closed', votes: 1 });
+    await radix.set('t/1', { status: 'closed', votes: 1 });
+    await radix.set('t/1', { status: 'closed', votes: 2 });
+    expect(events).toEqual([
+      {
+        type: 'set',
+        key: 't/1',
+        value: { status: 'open' },
+        oldValue: undefined,
+      },
+      {
+        type: 'set',
+        key: 't/1',
+        value: { status: 'closed' },
+        oldValue: { status: 'open' },
+      },
+    ]);
+  });
+
+  it('skips failed transactions and ignores listener errors', async () => {
+    const radix = new Radix(new StoreInMemory());
+    const keys: string[] = [];
+    radix.watch({}, () => {
+      throw new Error('listener');
+    });
+    radix.watch({}, ({ key }) => keys.push(key));
+    await expect(
+      radix.transaction(async tx => {
+        await tx.set('a', 1);
+        throw new Error('abort');
+      }),
+    ).rejects.toThrow('abort');
+    await radix.transaction(async tx => {
+      await tx.set('b', 1);
+      await tx.set('c', 1);
+    });
+    expect(keys).toEqual(['b', 'c']);
+  });
+
+  it('yields changes from an async iterator', async () => {
+    const radix = new Radix(new StoreInMemory());
+    const changes = radix.watch<number>({ gte: 'b' });
+    // Nothing is subscribed before the iteration starts
+    await radix.set('b', 1);
+    const events: ChangeEvent<number>[] = [];
+    const reading = (async () => {
+      for await (const event of changes) {
+        events.push(event);
+        if (events.length === 3) break;
+      }
+    })();
+    await radix.set('a', 1);
+    await radix.set('b', 2);
+    await radix.set('c', 3);
+    await radix.del('b');
+    await reading;
+    await radix.set('d', 4);
+    expect(events.map(({ type, key }) => `${type} ${key}`)).toEqual([
+      'set b',
+      'set c',
+      'del b',
+    ]);
+    expect(events[0].oldValue).toBe(1);
+    expect((await changes.next()).done).toBe(true);
+  });
+
+  it('stops an async iterator waiting for a change', async () => {
+    const radix = new Radix(new StoreInMemory());
+    const changes = radix.watch<number>();
+    type Listener = (event: ChangeEvent<number>) => void;
+    const watch = radix.watch.bind(radix) as (
+      query: Query,
+      listener: Listener,
+    ) => () => void;
+    const unsubscribed = vi.fn();
+    vi.spyOn(radix, 'watch').mockImplementation(((
+      query: Query,
+      listener: Listener,
+    ) => {
+      const unsubscribe = watch(query, listener);
+      return () => {
+        unsubscribed();
+        unsubscribe();
+      };
+    }) as typeof radix.watch);
+    const first = changes.next();
+    await radix.set('a', 1);
+    expect((await first).value).toMatchObject({ type: 'set', key: 'a' });
+    const pending = changes.next();
+    expect(await changes.return()).toEqual({ done: true, value: undefined });
+    expect(await pending).toEqual({ done: true, value: undefined });
+    expect(unsubscribed).toHaveBeenCalledOnce();
+    await radix.set('b', 2);
+    expect((await changes.next()).done).toBe(true);
+  });
+});
+
+describe('radix locks', () => {
+  it('allocates node ids from the counter in the store', async () => {
+    const store = new StoreInMemory();
+    const radixA = new Radix(new StoreConnection(store));
+    const radixB = new Radix(new StoreConnection(store));
+    for (let i = 0; i < 50; ++i) {
+      const radix = i % 2 ? radixA : radixB;
+      await radix.set(i.toString(3), i);
+    }
+    expect((await radixA.verify()).issues).toEqual([]);
+    expect(await radixB.count()).toBe(50);
+  });
+
+  it('serializes writers sharing a lock provider', async () => {
+    const store = new StoreInMemory();
+    const lock = new LockInProcess();
+    const radixA = new Radix(new StoreConnection(store), { lock });
+    const radixB = new Radix(new StoreConnection(store), { lock });
+    await Promise.all(
+      Array.from({ length: 60 }, (_, i) =>
+        (i % 2 ? radixA : radixB).set(i.toString(3), i),
+      ),
+    );
+    const report = await radixA.verify();
+    expect(report.issues).toEqual([]);
+    expect(report.keys).toBe(60);
+    expect(await store.get('#')).toBe(report.nodes);
+  });
+
+  it('locks each tree apart', async () => {
+    const store = new StoreInMemory();
+    const users = new Radix(store, { name: 'users' });
+    const posts = new Radix(store, { name: 'posts' });
+    await posts.set('p/1', 1);
+    const read = await users.transaction(() => posts.get('p/1'));
+    expect(read).toBe(1);
+  });
+
+  it('obtains locks from the provider', async () => {
+    const calls: string[] = [];
+    const lock = new LockInProcess();
+    const radix = new Radix(new StoreInMemory(), {
+      name: 'users',
+      lock: {
+        read: async name => {
+          calls.push(`read ${name}`);
+          return lock.read(name);
+        },
+        write: async name => {
+          const release = await lock.write(name);
+          calls.push(`write ${name}`);
+          return async () => {
+            calls.push(`release ${name}`);
+            release();
+          };
+        },
+      },
+    });
+    await radix.set('a', 1);
+    await radix.get('a');
+    expect(calls).toEqual(['write users:_', 'release users:_', 'read users:_']);
+  });
+});
+
+describe('radix loop mutation', () => {
+  async function setup(length: number) {
+    const radix = new Radix(new StoreInMemory());
+    for (let i = 0; i < length; ++i) {
+      await radix.set(`k/${i.toString().padStart(3, '0')}`, i);
+    }
+    return radix;
+  }
+
+  it('writes to the tree from within a loop', async () => {
+    const radix = await setup(250);
+    const seen: number[] = [];
+    for await (const [key, value] of radix.loop<number>({ prefix: 'k/' })) {
+      seen.push(value);
+      await radix.del(key);
+      await radix.set(`done/${key}`, value);
+      // Keys ahead of the loop are seen from the next chunk on
+      if (value === 150) await radix.del('k/249');
+    }
+    expect(seen.length).toBe(249);
+    expect(await radix.count({ prefix: 'k/' })).toBe(0);
+    expect(await radix.count({ prefix: 'done/' })).toBe(249);
+    expect((await radix.verify()).ok).toBe(true);
+  });
+
+  it('keeps the count and order across chunks', async () => {
+    const radix = await setup(250);
+    const keys: string[] = [];
+    for await (const [key] of radix.loop({ sort: -1, count: 220 })) {
+      keys.push(key);
+    }
+    expect(keys.length).toBe(220);
+    expect(keys[0]).toBe('k/249');
+    expect(keys[219]).toBe('k/030');
+  });
+
+  it('releases the lock of abandoned loops', async () => {
+    const radix = await setup(3);
+    const loop = radix.loop();
+    expect((await loop.next()).value).toEqual(['k/000', 0]);
+    await radix.set('k/003', 3);
+    expect(await radix.get('k/003')).toBe(3);
+  });
+
+  it('writes to the tree from within an index loop', async () => {
+    const radix = await setup(0);
+    radix.defineIndex<number>('mod', value => `${value % 3}`);
+    for (let i = 0; i < 250; ++i) await radix.set(`k/${i}`, i);
+    let seen = 0;
+    for await (const [key] of radix.loopIndex('mod', { lte: '1' })) {
+      await radix.del(key);
+      ++seen;
+    }
+    expect(seen).toBe(167);
+    expect(await radix.count()).toBe(83);
+  });
+});
+
+describe('radix codecs', () => {
+  it('keeps extended values', async () => {
+    const radix = new Radix(new StoreInMemory(), { codec: extendedJsonCodec });
+    const value = {
+      date: new Date('2024-01-05T10:00:00.000Z'),
+      invalid: new Date(NaN),
+      big: 12345678901234567890n,
+      numbers: [NaN, Infinity, -Infinity, -0, 1.5],
+      missing: undefined,
+      map: new Map<unknown, unknown>([
+        ['a', 1],
+        [2, new Set(['x'])],
+      ]),
+      bytes: new Uint8Array([0, 1, 254, 255]),
+      re: /a+b/gi,
+      tagged: { $t: 'Date', v: 'not a date' },
+      list: [undefined, null],
+    };
+    await radix.set('v', value);
+    expect(await radix.get('v')).toEqual(value);
+    const { items } = await radix.page<typeof value>({ prefix: 'v' });
+    const [[, looped]] = items;
+    expect(looped.date).toBeInstanceOf(Date);
+    expect(looped.map.get(2)).toEqual(new Set(['x']));
+    expect(Object.is(looped.numbers[3], -0)).toBe(true);
+    expect('missing' in looped).toBe(true);
+  });
+
+  it('rejects values it cannot encode', async () => {
+    const radix = new Radix(new StoreInMemory(), { codec: extendedJsonCodec });
+    await expect(radix.set('f', { f: () => {} })).rejects.toThrow(
+      'Cannot encode a value of type function',
+    );
+    expect(await radix.has('f')).toBe(false);
+  });
+
+  it('rejects values JSON cannot encode', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await expect(radix.set('u', undefined)).rejects.toThrow(
+      new TypeError('Cannot encode a value of type undefined'),
+    );
+    await expect(radix.set('f', () => {})).rejects.toThrow(
+      'Cannot encode a value of type function',
+    );
+    await expect(radix.set('n', { a: [NaN] })).rejects.toThrow(
+      new TypeError('Cannot encode NaN'),
+    );
+    expect(await radix.has('u')).toBe(false);
+    expect(await radix.count()).toBe(0);
+  });
+
+  it('uses a custom codec for every read and write', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store, {
+      codec: {
+        encode: value => `${value}`.split('').reverse().join(''),
+        decode: data => data.split('').reverse().join(''),
+      },
+    });
+    await radix.set('a', 'abc');
+    await radix.batch([{ type: 'set', key: 'b', value: 'def' }]);
+    expect(store.toString()).toContain('"cba"');
+    expect(await radix.get('a')).toBe('abc');
+    const found: [string, string][] = [];
+    for await (const entry of radix.loop<string>({ where: v => v === 'def' })) {
+      found.push(entry);
+    }
+    expect(found).toEqual([['b', 'def']]);
+  });
+});
+
+describe('radix node cache', () => {
+  class StoreCounting extends StoreInMemory {
+    public gets = 0;
+
+    async get<T>(key: string) {
+      ++this.gets;
+      return super.get<T>(key);
+    }
+  }
+
+  it('serves nodes from memory', async () => {
+    const store = new StoreCounting();
+    const radix = new Radix(store, { cache: { size: 100 } });
+    for (let i = 0; i < 20; ++i) await radix.set(`key/${i}`, i);
+    const gets = store.gets;
+    for (let i = 0; i < 20; ++i) expect(await radix.get(`key/${i}`)).toBe(i);
+    expect(store.gets).toBe(gets);
+    const stats = radix.cacheStats()!;
+    expect(stats.hits).toBeGreaterThan(stats.misses);
+    expect(stats.pending).toBe(0);
+    expect(new Radix(new StoreInMemory()).cacheStats()).toBeUndefined();
+  });
+
+  it('keeps the cache up to date with its own writes', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store, { cache: { size: 3 } });
+    const plain = new Radix(store);
+    for (let i = 0; i < 50; ++i) await radix.set(`${i % 7}/${i}`, i);
+    await radix.delPrefix('3/');
+    await radix.del('4/4');
+    expect(radix.cacheStats()!.size).toBeLessThanOrEqual(3);
+    const keys: string[] = [];
+    for await (const [key] of radix.loop()) keys.push(key);
+    const plainKeys: string[] = [];
+    for await (const [key] of plain.loop()) plainKeys.push(key);
+    expect(keys).toEqual(plainKeys);
+    expect(keys.length).toBe(42);
+    expect((await radix.verify()).ok).toBe(true);
+  });
+
+  it('delays writes until flushed in write-back mode', async () => {
+    const store = new StoreFailing();
+    const radix = new Radix(store, { cache: { size: 10, writeBack: true } });
+    await radix.set('a', 1);
+    await radix.set('b', 2);
+    expect(await radix.get('b')).toBe(2);
+    expect(await new Radix(store).get('b')).toBeUndefined();
+    expect(radix.cacheStats()!.pending).toBeGreaterThan(0);
+    store.failAfter = 0;
+    await expect(radix.flush()).rejects.toThrow('Store failure');
+    expect(radix.cacheStats()!.pending).toBeGreaterThan(0);
+    await radix.flush();
+    expect(radix.cacheStats()!.pending).toBe(0);
+    expect(await new Radix(store).get('b')).toBe(2);
+  });
+
+  it('flushes a full write-back cache', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store, { cache: { size: 5, writeBack: true } });
+    for (let i = 0; i < 30; ++i) await radix.set(`k${i}`, i);
+    expect(radix.cacheStats()!.pending).toBeLessThanOrEqual(5 + 3);
+    expect(await new Radix(store).count()).toBeGreaterThan(0);
+    await radix.flush();
+    expect(await new Radix(store).count()).toBe(30);
+  });
+});
+
+describe('bundled stores', () => {
+  class StorageInMemory implements Storage {
+    private data = new Map<string, string>();
+    public quota = Infinity;
+
+    get length() {
+      return this.data.size;
+    }
+
+    clear() {
+      this.data.clear();
+    }
+
+    getItem(key: string) {
+      return this.data.get(key) ?? null;
+    }
+
+    key(index: number) {
+      return [...this.data.keys()][index] ?? null;
+    }
+
+    removeItem(key: string) {
+      this.data.delete(key);
+    }
+
+    setItem(key: string, value: string) {
+      if (this.data.size >= this.quota) throw new Error('Quota exceeded');
+      this.data.set(key, value);
+    }
+  }
+
+  const dirs: string[] = [];
+  async function tempDir() {
+    const dir = await mkdtemp(join(tmpdir(), 'radix-'));
+    dirs.push(dir);
+    return dir;
+  }
+
+  afterAll(async () => {
+    for (const dir of dirs) await rm(dir, { recursive: true, force: true });
+  });
+
+  const framework = { describe, it, expect };
+  testStore('memory store', () => new StoreMemory(), framework);
+  testStore(
+    'storage store',
+    () => new StoreInStorage(new StorageInMemory(), 'radix:'),
+    framework,
+  );
+  testStore(
+    'files store',
+    async () => new StoreInFiles(await tempDir()),
+    framework,
+  );
+
+  it('snapshots and restores a memory store', async () => {
+    const store = new StoreMemory();
+    const radix = new Radix(store);
+    await radix.set('a', 1);
+    const snapshot = store.snapshot();
+    await radix.set('a', 2);
+    await radix.set('b', 3);
+    store.restore(JSON.parse(JSON.stringify(snapshot)));
+    expect(await radix.get('a')).toBe(1);
+    expect(await radix.has('b')).toBe(false);
+  });
+
+  it('shares a storage between prefixes and rolls back failed batches', async () => {
+    const storage = new StorageInMemory();
+    const radixA = new Radix(new StoreInStorage(storage, 'a:'));
+    const radixB = new Radix(new StoreInStorage(storage, 'b:'));
+    await radixA.set('k', 'a');
+    await radixB.set('k', 'b');
+    expect(await radixA.get('k')).toBe('a');
+    storage.quota = storage.length;
+    await expect(radixA.set('other', 'a')).rejects.toThrow('Quota exceeded');
+    storage.quota = Infinity;
+    expect((await radixA.verify()).ok).toBe(true);
+    expect(await radixA.has('other')).toBe(false);
+  });
+
+  it('applies a journal left by a crash', async () => {
+    const dir = await tempDir();
+    await writeFile(
+      join(dir, 'journal.ops'),
+      JSON.stringify([
+        { type: 'set', key: 'a', value: 1 },
+        { type: 'set', key: 'Users:_', value: [] },
+      ]),
+    );
+    const store = new StoreInFiles(dir);
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('Users:_')).toEqual([]);
+    expect(await new StoreInFiles(dir).get('a')).toBe(1);
+  });
+
+  it('applies every journal left by a crash', async () => {
+    const dir = await tempDir();
+    await writeFile(
+      join(dir, 'journal.x1.ops'),
+      JSON.stringify([{ type: 'set', key: 'a', value: 1 }]),
+    );
+    await writeFile(
+      join(dir, 'journal.x2.ops'),
+      JSON.stringify([{ type: 'set', key: 'b', value: 2 }]),
+    );
+    const store = new StoreInFiles(dir);
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBe(2);
+    expect((await readdir(dir)).filter(name => name.endsWith('.ops'))).toEqual(
+      [],
+    );
+  });
+
+  it('undoes a batch failing part way', async () => {
+    const dir = await tempDir();
+    const store = new StoreInFiles(dir);
+    await store.set('a', 1);
+    // Encoded once for the journal, the value fails to be written
+    let encoded = 0;
+    const value = {
+      toJSON: () => {
+        if (++encoded > 1) throw new Error('Write failed');
+        return 2;
+      },
+    };
+    await expect(
+      store.batch([
+        { type: 'set', key: 'a', value: 3 },
+        { type: 'set', key: 'b', value: value as unknown as JValue },
+      ]),
+    ).rejects.toThrow('Write failed');
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await new StoreInFiles(dir).get('a')).toBe(1);
+    expect((await readdir(dir)).filter(name => name.endsWith('.ops'))).toEqual(
+      [],
+    );
+  });
+
+  it('commits batches of two trees at the same time', async () => {
+    const dir = await tempDir();
+    const store = new StoreInFiles(dir);
+    const users = new Radix(store, { name: 'users' });
+    const posts = new Radix(store, { name: 'posts' });
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) => [
+        users.set(`u${i}`, i),
+        posts.set(`p${i}`, i),
+      ]).flat(),
+    );
+    expect(await users.count()).toBe(20);
+    expect(await posts.count()).toBe(20);
+    expect((await users.verify()).ok).toBe(true);
+    expect((await posts.verify()).ok).toBe(true);
+    expect((await readdir(dir)).filter(name => name.endsWith('.ops'))).toEqual(
+      [],
+    );
+  });
+});
+
+describe('radix export and import', () => {
+  const keys = ['', 'a', 'ab', 'abc', 'abd', 'b', 'ba', 'bb/1', 'bb/2', 'c'];
+
+  async function source(length: number) {
+    const radix = new Radix(new StoreInMemory());
+    for (const key of keys) await radix.set(key, { key });
+    for (let i = 0; i < length; ++i) {
+      await radix.set(`r/${faker.random.alphaNumeric(6)}`, i);
+    }
+    return radix;
+  }
+
+  it('exports sorted lines', async () => {
+    const radix = new Radix(new StoreInMemory(), { codec: extendedJsonCodec });
+    await radix.set('b', new Date(0));
+    await radix.set('a', 1n);
+    const lines: string[] = [];
+    for await (const line of radix.export()) lines.push(line);
+    expect(lines).toEqual([
+      `${JSON.stringify(['a', '{"$t":"BigInt","v":"1"}'])}\n`,
+      `${JSON.stringify(['b', '{"$t":"Date","v":"1970-01-01T00:00:00.000Z"}'])}\n`,
+    ]);
+    const copy = new Radix(new StoreInMemory(), { codec: extendedJsonCodec });
+    expect(await copy.import(lines)).toBe(2);
+    expect(await copy.get('a')).toBe(1n);
+  });
+
+  it('loads sorted keys in bulk, writing each node once', async () => {
+    const from = await source(1500);
+    const store = new StoreBatching();
+    const radix = new Radix(store, { counts: true });
+    const progress: number[] = [];
+    const count = await radix.import(from.export(), {
+      onProgress: keys => progress.push(keys),
+    });
+    const entries = await entriesOf(from);
+    expect(count).toBe(entries.length);
+    expect(progress).toEqual([1000, entries.length]);
+    expect(await entriesOf(radix)).toEqual(entries);
+    const report = await radix.verify();
+    expect(report.issues).toEqual([]);
+    const writes = store.batches.flat();
+    expect(writes.length).toBe(report.nodes + 2);
+    expect(new Set(writes.map(op => op.key)).size).toBe(writes.length);
+    await radix.set('r/new', 1);
+    expect((await radix.verify()).ok).toBe(true);
+  });
+
+  it('falls back to setting keys out of order', async () => {
+    const lines = [
+      '["b","2"]',
+      '["d","4"]',
+      '["c","3"]',
+      '["a","1"]',
+      '["d","5"]',
+    ];
+    const radix = new Radix(new StoreInMemory());
+    // Chunks do not have to end on line boundaries
+    const text = new TextEncoder().encode(`${lines.join('\n')}\n`);
+    const chunks = [text.slice(0, 7), text.slice(7, 20), text.slice(20)];
+    expect(await radix.import(chunks)).toBe(5);
+    expect(await entriesOf(radix)).toEqual([
+      ['a', 1],
+      ['b', 2],
+      ['c', 3],
+      ['d', 5],
+    ]);
+    expect((await radix.verify()).ok).toBe(true);
+    expect(await radix.import(['["0","0"]\n["e","6"]'])).toBe(2);
+    expect(await radix.count()).toBe(6);
+  });
+
+  it('rebuilds indexes after a bulk load', async () => {
+    const radix = new Radix(new StoreInMemory());
+    radix.defineIndex<{ key: string }>('rev', ({ key }) =>
+      key.split('').reverse().join(''),
+    );
+    expect(await radix.import((await source(0)).export())).toBe(keys.length);
+    const found: string[] = [];
+    for await (const [key] of radix.loopIndex('rev', { prefix: 'b' })) {
+      found.push(key);
+    }
+    expect(found).toEqual(['b', 'ab']);
+  });
+
+  it('rejects invalid lines', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await expect(radix.import(['["a",1]'])).rejects.toThrow(
+      'Invalid import line: ["a",1]',
+    );
+  });
+});
+
+describe('radix read-modify-write', () => {
+  it('updates values from their current value', async () => {
+    const radix = new Radix(new StoreInMemory());
+    expect(
+      await radix.update<string[]>('list', list => [...list ?? [], 'a']),
+    ).toEqual({ oldValue: undefined, value: ['a'], changed: true });
+    expect(
+      await radix.update<string[]>('list', list => [...list ?? [], 'b']),
+    ).toEqual({ oldValue: ['a'], value: ['a', 'b'], changed: true });
+    expect(await radix.update('list', () => undefined)).toEqual({
+      oldValue: ['a', 'b'],
+      value: ['a', 'b'],
+      changed: false,
+    });
+    expect(await radix.update('none', () => undefined)).toEqual({
+      oldValue: undefined,
+      value: undefined,
+      changed: false,
+    });
+    expect(await radix.has('none')).toBe(false);
+  });
+
+  it('increments counters atomically', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await Promise.all(
+      Array.from({ length: 50 }, () => radix.increment('hits')),
+    );
+    expect(await radix.get('hits')).toBe(50);
+    expect(await radix.increment('hits', -10)).toEqual({
+      oldValue: 50,
+      value: 40,
+      changed: true,
+    });
+    await radix.set('name', 'ann');
+    await expect(radix.increment('name')).rejects.toThrow(
+      'Cannot increment a non-numeric value: name',
+    );
+  });
+
+  it('compares and sets values', async () => {
+    const radix = new Radix(new StoreInMemory());
+    expect(await radix.compareAndSet('s', undefined, { v: 1 })).toEqual({
+      oldValue: undefined,
+      value: { v: 1 },
+      changed: true,
+    });
+    expect(await radix.compareAndSet('s', undefined, { v: 2 })).toEqual({
+      oldValue: { v: 1 },
+      value: { v: 1 },
+      changed: false,
+    });
+    expect(await radix.compareAndSet('s', { v: 1 }, { v: 3 })).toEqual({
+      oldValue: { v: 1 },
+      value: { v: 3 },
+      changed: true,
+    });
+    expect((await radix.compareAndSet('s', { v: 1 }, { v: 4 })).changed).toBe(
+      false,
+    );
+  });
+
+  it('gets or sets values', async () => {
+    const radix = new Radix(new StoreInMemory());
+    const events: ChangeEvent[] = [];
+    radix.watch({}, event => events.push(event));
+    let created = 0;
+    const factory = async () => ({ created: ++created });
+    const results = await Promise.all([
+      radix.getOrSet('k', factory),
+      radix.getOrSet('k', factory),
+    ]);
+    expect(results).toEqual([
+      { oldValue: undefined, value: { created: 1 }, changed: true },
+      { oldValue: { created: 1 }, value: { created: 1 }, changed: false },
+    ]);
+    expect(events.length).toBe(1);
+  });
+});
+
+describe('radix expiry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('hides expired keys from reads', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+    const radix = new Radix(new StoreInMemory());
+    await radix.set('a', 1, { ttl: 500 });
+    await radix.set('b', 2, { expiresAt: 900 });
+    await radix.set('c', 3);
+    expect(await radix.get('a')).toBe(1);
+    expect(await radix.get('b')).toBeUndefined();
+    expect(await radix.has('b')).toBe(false);
+    const keys = async () => {
+      const result: string[] = [];
+      for await (const [key] of radix.loop()) result.push(key);
+      return result;
+    };
+    expect(await keys()).toEqual(['a', 'c']);
+    now.mockReturnValue(1500);
+    expect(await radix.get('a')).toBeUndefined();
+    expect(await keys()).toEqual(['c']);
+    expect(await radix.update('a', () => 4)).toEqual({
+      oldValue: undefined,
+      value: 4,
+      changed: true,
+    });
+  });
+
+  it('keeps or clears the expiry on writes', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+    const radix = new Radix(new StoreInMemory());
+    await radix.set('n', 1, { ttl: 100 });
+    await radix.increment('n');
+    await radix.set('s', 'x', { expiresAt: new Date(1100) });
+    await radix.set('s', 'y');
+    now.mockReturnValue(1100);
+    expect(await radix.get('n')).toBeUndefined();
+    expect(await radix.get('s')).toBe('y');
+  });
+
+  it('leaves expired keys out of counts and positions', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+    for (const counts of [false, true]) {
+      const radix = new Radix(new StoreInMemory(), { counts });
+      await radix.set('aa', 1);
+      await radix.set('ab', 2, { ttl: 100 });
+      await radix.set('ac', 3);
+      await radix.set('b', 4, { ttl: 100 });
+      now.mockReturnValue(1100);
+      expect(await radix.count()).toBe(2);
+      expect(await radix.count({ prefix: 'a' })).toBe(2);
+      expect(await radix.rank('ac')).toBe(1);
+      expect(await radix.rank('c')).toBe(2);
+      expect(await radix.at(1)).toEqual(['ac', 3]);
+      expect(await radix.at(2)).toBeUndefined();
+      now.mockReturnValue(1000);
+    }
+  });
+
+  it('leaves expired keys out of deleted counts', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+    for (const counts of [false, true]) {
+      const radix = new Radix(new StoreInMemory(), { counts });
+      await radix.set('a', 1, { ttl: 100 });
+      await radix.set('b/1', 2, { ttl: 100 });
+      await radix.set('b/2', 3);
+      await radix.set('x/1', 4, { ttl: 100 });
+      await radix.set('x/2', 5);
+      await radix.set('x/3', 6);
+      now.mockReturnValue(1100);
+      const prefixed = await radix.count({ prefix: 'x/' });
+      expect(await radix.delPrefix('x/')).toBe(prefixed);
+      expect(await radix.delRange({})).toBe(1);
+      expect(await radix.count()).toBe(0);
+      expect((await radix.verify()).ok).toBe(true);
+      now.mockReturnValue(1000);
+    }
+  });
+
+  it('exports and imports expiry times', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+    const radix = new Radix(new StoreInMemory());
+    await radix.set('a', 1, { ttl: 500 });
+    await radix.set('b', 2);
+    const lines: string[] = [];
+    for await (const line of radix.export()) lines.push(line);
+    expect(lines).toEqual(['["a","1",1500]\n', '["b","2"]\n']);
+    const bulk = new Radix(new StoreInMemory(), { counts: true });
+    expect(await bulk.import(lines)).toBe(2);
+    const single = new Radix(new StoreInMemory());
+    await single.set('c', 3);
+    expect(await single.import(lines)).toBe(2);
+    now.mockReturnValue(1500);
+    for (const copy of [bulk, single]) {
+      expect(await copy.get('a')).toBeUndefined();
+      expect(await copy.count()).toBe(copy === bulk ? 1 : 2);
+      expect(await copy.purgeExpired()).toBe(1);
+      expect((await copy.verify()).ok).toBe(true);
+    }
+  });
+
+  it('keeps expiry times and indexes apart from the trees of the user', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    radix.defineIndex<number>('value', value => String(value));
+    const expiry = new Radix(store, { name: 'expiry' });
+    const index = new Radix(store, { name: 'index:value' });
+    await expiry.set('x', 1);
+    await radix.set('k', 1, { ttl: 1000 });
+    expect(await keysOf(expiry)).toEqual(['x']);
+    expect(await keysOf(index)).toEqual([]);
+    expect(() => new Radix(store, { name: '$expiry' })).toThrow(
+      'Reserved tree name: $expiry',
+    );
+  });
+
+  it('purges expired keys', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+    const radix = new Radix(new StoreInMemory(), { counts: true });
+    radix.defineIndex<number>('value', value => String(value));
+    const events: ChangeEvent[] = [];
+    radix.watch({}, event => events.push(event));
+    for (let i = 0; i < 30; ++i) {
+      await radix.set(`k${i}`, i, i % 3 ? {} : { ttl: i * 10 });
+    }
+    await radix.set('k0', 0);
+    now.mockReturnValue(1150);
+    expect(await radix.count()).toBe(25);
+    expect(await radix.purgeExpired()).toBe(5);
+    expect(await radix.count()).toBe(25);
+    expect(await radix.purgeExpired()).toBe(0);
+    expect(await radix.get('k0')).toBe(0);
+    expect(await radix.get('k18')).toBe(18);
+    expect((await radix.verify()).ok).toBe(true);
+    const indexed: string[] = [];
+    for await (const [key] of radix.loopIndex('value', { prefix: '1' })) {
+      indexed.push(key);
+    }
+    expect(indexed).toEqual([
+      'k1',
+      'k10',
+      'k11',
+      'k13',
+      'k14',
+      'k16',
+      'k17',
+      'k18',
+      'k19',
+    ]);
+    expect(events.length).toBe(31);
+  });
+});
+
+describe('radix snapshots', () => {
+  it('reads the tree as it was when taken', async () => {
+    const radix = new Radix(new StoreInMemory(), {
+      copyOnWrite: true,
+      counts: true,
+    });
+    for (let i = 0; i < 300; ++i) {
+      await radix.set(`k${(i * 7919 % 1000).toString(36)}`, i);
+    }
+    const before: [string, JValue][] = [];
+    for await (const entry of radix.loop()) before.push(entry);
+    const snapshot = await radix.snapshot();
+    const seen: [string, JValue][] = [];
+    for await (const entry of snapshot.loop()) {
+      seen.push(entry);
+      // Writes are not held back by the loop, nor seen by it
+      await radix.del(entry[0]);
+      await radix.set(`${entry[0]}/new`, 0);
+    }
+    await radix.delPrefix('k1');
+    expect(seen).toEqual(before);
+    expect(await snapshot.get(before[0][0])).toBe(before[0][1]);
+    expect(await snapshot.has(`${before[0][0]}/new`)).toBe(false);
+    expect(await radix.has(before[0][0])).toBe(false);
+    expect((await radix.verify()).ok).toBe(true);
+    await snapshot.close();
+    await expect(snapshot.get('k0')).rejects.toThrow('Snapshot is closed');
+    expect((await radix.verify()).ok).toBe(true);
+    expect((await radix.compact()).orphans).toBe(0);
+    expect(await radix.count()).toBe(
+      before.filter(([key]) => !key.startsWith('k1')).length,
+    );
+  });
+
+  it('keeps node versions until every snapshot reading them is closed', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store, { copyOnWrite: true });
+    await radix.batch(
+      ['apple', 'apricot', 'banana', 'band'].map(key => ({
+        type: 'set',
+        key,
+        value: key,
+      })),
+    );
+    const first = await radix.snapshot();
+    await radix.set('apex', 1);
+    const second = await radix.snapshot();
+    await radix.del('apricot');
+    await first.close();
+    expect(await second.get('apricot')).toBe('apricot');
+    expect(await second.get('apex')).toBe(1);
+    await expect(radix.compact()).rejects.toThrow(
+      'Cannot compact while snapshots are open',
+    );
+    await second.close();
+    const report = await radix.compact();
+    expect(report.orphans).toBe(0);
+    expect(await radix.get('apricot')).toBeUndefined();
+  });
+
+  it('keeps snapshots intact through the writes of other instances', async () => {
+    const store = new StoreInMemory();
+    const a = new Radix(store, { copyOnWrite: true });
+    const b = new Radix(store);
+    for (const key of ['cat', 'cow', 'dog', 'dot']) await a.set(key, key);
+    const before = await entriesOf(a);
+    const snapshot = await a.snapshot();
+    await b.set('cap', 'cap');
+    await b.del('dot');
+    await b.set('cat', 'CHANGED');
+    const seen: [string, JValue][] = [];
+    for await (const entry of snapshot.loop()) seen.push(entry);
+    expect(seen).toEqual(before);
+    expect(await snapshot.get('dog')).toBe('dog');
+    expect(await keysOf(b)).toEqual(['cap', 'cat', 'cow', 'dog']);
+    await expect(b.compact()).rejects.toThrow(
+      'Cannot compact while snapshots are open',
+    );
+    await snapshot.close();
+    expect((await b.verify()).ok).toBe(true);
+    expect((await a.compact()).orphans).toBe(0);
+  });
+
+  it('requires the copyOnWrite option', async () => {
+    const radix = new Radix(new StoreInMemory());
+    await expect(radix.snapshot()).rejects.toThrow(
+      'Snapshots require the copyOnWrite option',
+    );
+  });
+});
+
+describe('radix out-of-line values', () => {
+  const large = (key: string) => ({ key, text: key.repeat(20) });
+
+  it('stores large values under keys of their own', async () => {
+    const store = new StoreBatching();
+    const radix = new Radix(store, { inlineLimit: 40 });
+    await radix.set('doc/a', large('a'));
+    await radix.set('doc/b', large('b'));
+    await radix.set('doc/c', 'small');
+    const root = await store.get<JValue[][]>('_');
+    expect(JSON.stringify(root)).not.toContain('aaaa');
+    // Setting a sibling rewrites the node, but not the large values
+    store.batches = [];
+    await radix.set('doc/d', 1);
+    const written = store.batches.flat();
+    expect(JSON.stringify(written)).not.toContain('aaaa');
+    expect(await radix.get('doc/a')).toEqual(large('a'));
+    expect(await entriesOf(radix)).toEqual([
+      ['doc/a', large('a')],
+      ['doc/b', large('b')],
+      ['doc/c', 'small'],
+      ['doc/d', 1],
+    ]);
+    expect(await radix.count({ where: { key: 'b' } })).toBe(1);
+    expect((await radix.verify()).ok).toBe(true);
+  });
+
+  it('frees the keys of replaced and deleted values', async () => {
+    const radix = new Radix(new StoreInMemory(), { inlineLimit: 40 });
+    for (const key of ['a', 'b', 'c', 'd']) await radix.set(key, large(key));
+    await radix.set('a', large('e'));
+    await radix.set('b', 'small');
+    await radix.del('c');
+    await radix.delPrefix('d');
+    expect(await entriesOf(radix)).toEqual([
+      ['a', large('e')],
+      ['b', 'small'],
+    ]);
+    expect((await radix.verify()).ok).toBe(true);
+    const report = await radix.compact();
+    expect(report).toEqual({ nodes: 0, orphans: 0, reclaimed: 4 });
+    expect(await radix.get('a')).toEqual(large('e'));
+    expect((await radix.verify()).ok).toBe(true);
+  });
+
+  it('reads deleted values only for the indexes and watchers', async () => {
+    // Batches are written without reading the previous values back
+    const store = new StoreBatching();
+    const radix = new Radix(store, { inlineLimit: 40 });
+    const get = store.get.bind(store);
+    let values = 0;
+    store.get = async <T>(key: string) => {
+      const value = await get<T>(key);
+      if (typeof value === 'string') ++values;
+      return value;
+    };
+    const fill = async () => {
+      for (const key of ['a', 'b', 'c'])
+        await radix.set(`doc/${key}`, large(key));
+      values = 0;
+    };
+    await fill();
+    expect(await radix.delPrefix('doc/')).toBe(3);
+    expect(values).toBe(0);
+    const keys: string[] = [];
+    radix.watch({}, ({ key }) => keys.push(key));
+    await fill();
+    expect(await radix.delPrefix('doc/')).toBe(3);
+    expect(values).toBe(3);
+    expect(keys.slice(3)).toEqual(['doc/a', 'doc/b', 'doc/c']);
+    expect((await radix.verify()).ok).toBe(true);
+  });
+
+  it('reads values stored inline before the limit was set', async () => {
+    const store = new StoreInMemory();
+    await new Radix(store).set('a', large('a'));
+    const radix = new Radix(store, { inlineLimit: 40 });
+    expect(await radix.get('a')).toEqual(large('a'));
+    await radix.update('a', value => ({ ...(value as JObject), n: 1 }));
+    expect(await new Radix(store).get('a')).toEqual({ ...large('a'), n: 1 });
+    expect((await radix.verify()).ok).toBe(true);
+  });
+
+  it('imports large values in bulk and keeps them in snapshots', async () => {
+    const from = new Radix(new StoreInMemory());
+    for (let i = 0; i < 50; ++i) await from.set(`k${i}`, large(`${i}`));
+    const radix = new Radix(new StoreInMemory(), {
+      inlineLimit: 40,
+      copyOnWrite: true,
+    });
+    await radix.import(from.export());
+    expect(await entriesOf(radix)).toEqual(await entriesOf(from));
+    expect((await radix.verify()).ok).toBe(true);
+    const snapshot = await radix.snapshot();
+    await radix.set('k1', large('x'));
+    await radix.del('k2');
+    expect(await snapshot.get('k1')).toEqual(large('1'));
+    expect(await snapshot.get('k2')).toEqual(large('2'));
+    await snapshot.close();
+    expect((await radix.compact()).orphans).toBe(0);
+    expect(await radix.get('k1')).toEqual(large('x'));
+  });
+});
+
+describe('radix key order', () => {
+  async function filled(compare: (a: string, b: string) => number) {
+    const radix = new Radix(new StoreInMemory(), { compare, counts: true });
+    for (let i = 1; i <= 12; ++i) await radix.set(`item${i}`, i);
+    return radix;
+  }
+
+  it('sorts digits by their numeric value', async () => {
+    const radix = await filled(compareNatural);
+    const all = Array.from({ length: 12 }, (_, i) => `item${i + 1}`);
+    expect(await keysOf(radix)).toEqual(all);
+    expect(await keysOf(radix, { sort: -1, count: 3 })).toEqual([
+      'item12',
+      'item11',
+      'item10',
+    ]);
+    expect(await keysOf(radix, { gt: 'item2', lte: 'item10' })).toEqual(
+      all.slice(2, 10),
+    );
+    expect(await radix.count({ gte: 'item9' })).toBe(4);
+    expect(await radix.rank('item10')).toBe(9);
+    expect(await radix.at(9)).toEqual(['item10', 10]);
+    const pages: string[] = [];
+    let { items, next } = await radix.page({ count: 5, sort: -1 });
+    pages.push(...items.map(([key]) => key));
+    while (next) {
+      ({ items, next } = await radix.page({ count: 5, sort: -1 }, next));
+      pages.push(...items.map(([key]) => key));
+    }
+    expect(pages).toEqual([...all].reverse());
+    expect(await radix.delRange({ lt: 'item3' })).toBe(2);
+    expect(await keysOf(radix, { count: 2 })).toEqual(['item3', 'item4']);
+  });
+
+  it('ignores case, then orders by code units', async () => {
+    const radix = new Radix(new StoreInMemory(), {
+      compare: compareCaseInsensitive,
+    });
+    for (const key of ['b', 'A', 'c', 'a', 'B']) await radix.set(key, key);
+    expect(await keysOf(radix)).toEqual(['A', 'a', 'B', 'b', 'c']);
+    expect(await keysOf(radix, { gte: 'b' })).toEqual(['b', 'c']);
+  });
+
+  it('takes the compare function of a collator', async () => {
+    const radix = new Radix(new StoreInMemory(), {
+      compare: new Intl.Collator('de').compare,
+    });
+    for (const key of ['zebra', 'Äpfel', 'apfel', 'Birne']) {
+      await radix.set(key, 1);
+    }
+    expect(await keysOf(radix)).toEqual(['apfel', 'Äpfel', 'Birne', 'zebra']);
+  });
+
+  it('sorts by code points', async () => {
+    const radix = new Radix(new StoreInMemory(), {
+      compare: compareCodePoints,
+    });
+    for (const key of ['\u{1f600}', '\uff5e', 'a']) await radix.set(key, 1);
+    expect(await keysOf(radix)).toEqual(['a', '\uff5e', '\u{1f600}']);
+  });
+
+  it('keeps surrogate pairs within node labels', async () => {
+    const keys = [
+      'x\u{1f600}',
+      'x\u{1f603}',
+      '\u{1f600}',
+      '\u{1f600}a',
+      '\u{1f601}',
+      '\u{1f602}b',
+    ];
+    const labels = (store: StoreInMemory) =>
+      Object.values(JSON.parse(store.toString()) as Record<string, unknown>)
+        .filter(node => Array.isArray(node) && Array.isArray(node[0]))
+        .flatMap(node => (node as [string][]).map(([label]) => label));
+    const splits = (label: string) =>
+      /^[\udc00-\udfff]|[\ud800-\udbff]$/u.test(label);
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    for (const key of [...keys].reverse()) await radix.set(key, key);
+    const copyStore = new StoreInMemory();
+    const copy = new Radix(copyStore);
+    expect(await copy.import(radix.export())).toBe(keys.length);
+    for (const [tree, treeStore] of [
+      [radix, store],
+      [copy, copyStore],
+    ] as const) {
+      expect(labels(treeStore).filter(splits)).toEqual([]);
+      expect(await keysOf(tree)).toEqual(keys);
+      expect(await tree.get('\u{1f601}')).toBe('\u{1f601}');
+      expect((await tree.verify()).ok).toBe(true);
+      expect(await tree.del('\u{1f600}a')).toBe(true);
+      expect(await tree.complete('x')).toEqual([
+        ['x\u{1f600}', 'x\u{1f600}'],
+        ['x\u{1f603}', 'x\u{1f603}'],
+      ]);
+      expect((await tree.verify()).ok).toBe(true);
+    }
+  });
+
+  it('keeps keys ending with a lone high surrogate', async () => {
+    const keys = ['\ud83d', '\u{1f600}a', '\u{1f600}c', '\u{1f601}b'];
+    const radix = new Radix(new StoreInMemory());
+    for (const key of ['\u{1f600}a', '\u{1f601}b', '\ud83d', '\u{1f600}c']) {
+      await radix.set(key, key);
+    }
+    for (const key of keys) expect(await radix.get(key)).toBe(key);
+    expect(await keysOf(radix)).toEqual(keys);
+    expect(await keysOf(radix, { prefix: '\u{1f600}' })).toEqual(
+      keys.slice(1, 3),
+    );
+    expect(await radix.complete('\u{1f600}')).toEqual([
+      ['\u{1f600}a', '\u{1f600}a'],
+      ['\u{1f600}c', '\u{1f600}c'],
+    ]);
+    expect((await radix.verify()).ok).toBe(true);
+    expect(await radix.del('\u{1f601}b')).toBe(true);
+    expect(await radix.del('\ud83d')).toBe(true);
+    expect(await keysOf(radix)).toEqual(keys.slice(1, 3));
+    expect((await radix.verify()).ok).toBe(true);
+  });
+
+  it('reports branches splitting a surrogate pair', async () => {
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    await store.set('_', [
+      ['\ud83d', '1'],
+      ['\u{1f601}b', ['"b"']],
+    ]);
+    await store.set('1', [
+      ['', ['"c"']],
+      ['\ude00a', ['"a"']],
+    ]);
+    await store.set('#', 2);
+    expect((await radix.verify()).issues).toContainEqual({
+      type: 'duplicate',
+      node: '_',
+      key: '\u{1f601}b',
+    });
+  });
+});
+
+describe('radix tuple keys', () => {
+  const sorted = [
+    [false],
+    [true],
+    [new Date(-1000)],
+    [new Date(0)],
+    [-Infinity],
+    [-1.5],
+    [-1],
+    [0],
+    [0.25],
+    [2],
+    [10],
+    [2 ** 53],
+    [Infinity],
+    [''],
+    ['', 1],
+    ['a'],
+    ['a', -1],
+    ['a', 'b'],
+    ['a\0'],
+    ['a\0b'],
+    ['ab'],
+    ['b', 1, true],
+  ];
+
+  it('encodes tuples into keys sorting as the tuples', () => {
+    const keys = sorted.map(encodeTuple);
+    expect([...keys].sort()).toEqual(keys);
+    expect(keys.map(decodeTuple)).toEqual(sorted);
+    expect(encodeTuple([-0])).toBe(encodeTuple([0]));
+    expect(() => encodeTuple([new Date(NaN)])).toThrow('Invalid tuple element');
+    expect(() => encodeTuple([NaN])).toThrow('Invalid tuple element');
+    expect(() => decodeTuple('sabc')).toThrow('Invalid tuple key');
+  });
+
+  it('sets and loops over tuple keys', async () => {
+    const radix = new Radix(new StoreInMemory());
+    const day = (d: number) => new Date(Date.UTC(2024, 0, d));
+    for (const tenant of ['acme', 'acme2']) {
+      for (const n of [42, 7, 100]) {
+        await radix.tuple.set([tenant, day(n % 5), n], { tenant, n });
+      }
+    }
+    await radix.set('plain', 1);
+    expect(await radix.tuple.get(['acme', day(2), 7])).toEqual({
+      tenant: 'acme',
+      n: 7,
+    });
+    expect(await radix.tuple.has(['acme', day(2)])).toBe(false);
+    const keys: unknown[] = [];
+    for await (const [key] of radix.tuple.loop({ prefix: ['acme'] })) {
+      keys.push(key);
+    }
+    expect(keys).toEqual([
+      ['acme', day(0), 100],
+      ['acme', day(2), 7],
+      ['acme', day(2), 42],
+    ]);
+    const ns: number[] = [];
+    for await (const [key] of radix.tuple.loop({
+      gt: ['acme', day(0)],
+      lt: ['acme2'],
+      sort: -1,
+    })) {
+      ns.push(key[2] as number);
+    }
+    expect(ns).toEqual([42, 7, 100]);
+    expect(await radix.tuple.del(['acme2', day(2), 7])).toBe(true);
+    let count = 0;
+    for await (const entry of radix.tuple.loop()) count += entry ? 1 : 0;
+    expect(count).toBe(5);
+  });
+});
+
+describe('radix prefix lookups', () => {
+  const routes = ['/', '/api', '/api/users', '/api/users/me', '/apix', '/b'];
+
+  async function router() {
+    const radix = new Radix(new StoreInMemory());
+    for (const route of routes) await radix.set(route, route.length);
+    return radix;
+  }
+
+  it('finds the keys that are prefixes of an input', async () => {
+    const radix = await router();
+    expect(await radix.longestPrefixOf('/api/users/42')).toEqual([
+      '/api/users',
+      10,
+    ]);
+    expect(await radix.prefixesOf('/api/users/42')).toEqual([
+      ['/', 1],
+      ['/api', 4],
+      ['/api/users', 10],
+    ]);
+    expect(await radix.longestPrefixOf('/apix')).toEqual(['/apix', 5]);
+    expect(await radix.longestPrefixOf('api')).toBeUndefined();
+    expect(await radix.prefixesOf('')).toEqual([]);
+  });
+
+  it('completes the shortest keys first', async () => {
+    const radix = await router();
+    const keys = async (partial: string, limit?: number) =>
+      (await radix.complete(partial, limit)).map(([key]) => key);
+    expect(await keys('/ap', 2)).toEqual(['/api', '/apix']);
+    expect(await keys('/api/u')).toEqual(['/api/users', '/api/users/me']);
+    expect(await keys('')).toEqual([
+      '/',
+      '/b',
+      '/api',
+      '/apix',
+      '/api/users',
+      '/api/users/me',
+    ]);
+    expect(await keys('/c')).toEqual([]);
+    expect(await keys('/api/users/me/x')).toEqual([]);
+  });
+
+  it('reads only the branches of the completions', async () => {
+    let reads = 0;
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    for (let i = 0; i < 500; ++i) await radix.set(`word${i}`, i);
+    const get = store.get.bind(store);
+    store.get = async <T>(key: string) => {
+      ++reads;
+      return get<T>(key);
+    };
+    expect(await radix.complete('word4', 3)).toEqual([
+      ['word4', 4],
+      ['word40', 40],
+      ['word41', 41],
+    ]);
+    expect(reads).toBeLessThan(10);
+  });
+});
+
+describe('radix fuzzy search', () => {
+  const words = [
+    'apple',
+    'apply',
+    'ample',
+    'maple',
+    'apples',
+    'banana',
+    'pale',
+  ];
+
+  async function search(term: string, options?: FuzzyOptions) {
+    const radix = new Radix(new StoreInMemory());
+    for (const word of words) await radix.set(word, word.length);
+    const found: [string, number][] = [];
+    for await (const [key, , distance] of radix.fuzzy(term, options)) {
+      found.push([key, distance]);
+    }
+    return found;
+  }
+
+  it('finds the keys within an edit distance', async () => {
+    expect(await search('appel')).toEqual([]);
+    expect(await search('aple')).toEqual([
+      ['ample', 1],
+      ['apple', 1],
+      ['maple', 1],
+    ]);
+    expect(await search('apple', { maxDistance: 2 })).toEqual([
+      ['ample', 1],
+      ['apple', 0],
+      ['apples', 1],
+      ['apply', 1],
+      ['maple', 2],
+      ['pale', 2],
+    ]);
+    expect(await search('apple', { maxDistance: 2, limit: 2 })).toEqual([
+      ['ample', 1],
+      ['apple', 0],
+    ]);
+  });
+
+  it('counts transpositions as single edits', async () => {
+    expect(await search('appel', { transpositions: true })).toEqual([
+      ['apple', 1],
+    ]);
+    expect(await search('paple', { transpositions: true })).toEqual([
+      ['apple', 1],
+      ['maple', 1],
+      ['pale', 1],
+    ]);
+  });
+
+  it('matches the starts of the keys', async () => {
+    expect(await search('bann', { partial: true })).toEqual([['banana', 1]]);
+    expect(await search('aple', { partial: true })).toEqual([
+      ['ample', 1],
+      ['apple', 1],
+      ['apples', 1],
+      ['maple', 1],
+    ]);
+  });
+
+  it('searches the keys starting with a prefix', async () => {
+    const radix = new Radix(new StoreInMemory());
+    for (const key of ['users/ann', 'users/anne', 'users/bob', 'posts/ann']) {
+      await radix.set(key, 0);
+    }
+    const find = async (term: string, options: FuzzyOptions) => {
+      const found: [string, number][] = [];
+      for await (const [key, , distance] of radix.fuzzy(term, options)) {
+        found.push([key, distance]);
+      }
+      return found;
+    };
+    expect(await find('an', { prefix: 'users/', maxDistance: 2 })).toEqual([
+      ['users/ann', 1],
+      ['users/anne', 2],
+    ]);
+    expect(await find('bo', { prefix: 'users/b', partial: true })).toEqual([
+      ['users/bob', 1],
+    ]);
+    expect(await find('an', { prefix: 'user' })).toEqual([]);
+    expect(await find('an', { prefix: 'x' })).toEqual([]);
+  });
+
+  it('skips the branches beyond the distance', async () => {
+    let reads = 0;
+    const store = new StoreInMemory();
+    const radix = new Radix(store);
+    for (let i = 0; i < 500; ++i) await radix.set(`${i}/word`, i);
+    const get = store.get.bind(store);
+    store.get = async <T>(key: string) => {
+      ++reads;
+      return get<T>(key);
+    };
+    const found: string[] = [];
+    for await (const [key] of radix.fuzzy('42/wrod', {
+      transpositions: true,
+    })) {
+      found.push(key);
+    }
+    expect(found).toEqual(['42/word']);
+    expect(reads).toBeLessThan(30);
+  });
 });
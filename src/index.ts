@@ -1,50 +1,588 @@
-import { MutexRW } from 'mutex-ts';
+import { RadixSub } from './sub';
+import { RadixTuple } from './tuple';
+import type { CacheStats } from './types/cache';
+import type { ICodec } from './types/codec';
+import type { KeyCompare } from './types/compare';
+import type { SetOptions } from './types/expiry';
+import type { FuzzyOptions } from './types/fuzzy';
+import type { IndexKeys } from './types/indexes';
+import type { ILockProvider } from './types/lock';
+import type {
+  CompactReport,
+  VerifyIssue,
+  VerifyReport,
+} from './types/maintenance';
+import type { RadixOptions } from './types/options';
 import type { Query } from './types/query';
+import type { ISnapshot } from './types/snapshot';
 import type { IStore, JValue } from './types/store';
-import { jsonEncode } from './utils/json';
+import type { BatchOp, ITransaction } from './types/transaction';
+import type { ImportOptions, ImportSource } from './types/transfer';
+import type { UpdateResult } from './types/update';
+import type { ChangeEvent, ChangeListener } from './types/watch';
+import { NodeCache } from './utils/cache';
+import { decodeCursor, encodeCursor } from './utils/cursor';
+import { jsonCodec } from './utils/codec';
+import { totalOrder } from './utils/compare';
+import { editRow } from './utils/fuzzy';
+import { LockInProcess } from './utils/lock';
+import { readEntries } from './utils/ndjson';
+import type { CompiledQuery } from './utils/query';
+import { compileQuery, noFilter } from './utils/query';
+import { AsyncQueue } from './utils/queue';
+import { select } from './utils/where';
+import { flushCache, Txn } from './utils/txn';
 
-export type { Query } from './types/query';
-export type { IStore, JArray, JObject, JValue } from './types/store';
+export { RadixSub } from './sub';
+export { RadixTuple } from './tuple';
+export type { CacheOptions, CacheStats } from './types/cache';
+export type { ICodec } from './types/codec';
+export type { KeyCompare } from './types/compare';
+export type { SetOptions } from './types/expiry';
+export type { FuzzyOptions } from './types/fuzzy';
+export type { IndexKeys } from './types/indexes';
+export type { ILockProvider, LockRelease } from './types/lock';
+export type {
+  CompactReport,
+  VerifyIssue,
+  VerifyIssueType,
+  VerifyReport,
+} from './types/maintenance';
+export type { RadixOptions } from './types/options';
+export type { Query, Where, WhereCondition } from './types/query';
+export type { ISnapshot } from './types/snapshot';
+export type { IStore, JArray, JObject, JValue, StoreOp } from './types/store';
+export type { BatchOp, ITransaction } from './types/transaction';
+export type { ImportOptions, ImportSource } from './types/transfer';
+export type { TupleElement, TupleKey, TupleQuery } from './types/tuple';
+export type { UpdateResult } from './types/update';
+export type { ChangeEvent, ChangeListener } from './types/watch';
+export type { TestFramework } from './stores/conformance';
+export { testStore } from './stores/conformance';
+export { StoreInFiles } from './stores/files';
+export type { StoreSnapshot } from './stores/memory';
+export { StoreInMemory } from './stores/memory';
+export { StoreInStorage } from './stores/storage';
+export { extendedJsonCodec, jsonCodec } from './utils/codec';
+export {
+  compareCaseInsensitive,
+  compareCodePoints,
+  compareNatural,
+} from './utils/compare';
+export { LockInProcess } from './utils/lock';
+export { decodeTuple, encodeTuple } from './utils/tuple';
 
 type Awaitable<T> = Promise<T> | T;
-type RNode = [string, string | [string]][];
+// Branch entries may carry the number of keys within the branch
+// Leaves hold the encoded value, and the time it expires at if any
+type RLeaf = [string, ...number[]];
+// Within nodes, a value too large to be kept inline is replaced by the id of
+// the key it is stored under
+type RStored = [string | [string], ...number[]];
+type REntry = [string, string | RStored, ...number[]];
+type RNode = REntry[];
+interface RIndex {
+  tree: Radix;
+  keys: IndexKeys;
+}
+// Computes the value to set from the previous one, or undefined to keep it
+type RUpdate = (prev?: RLeaf) => Awaitable<RLeaf | undefined>;
+type RWatcher = (key: string, val?: RLeaf, prev?: RLeaf) => void;
+// Open snapshots and retired node ids, by the number of the last snapshot
+// taken before they were opened or retired
+interface RSnapshots {
+  open: Set<number>;
+  retired: [number, string][];
+  taken: number;
+}
+// A node being built by a bulk import, at a depth within the keys
+interface RFrame {
+  depth: number;
+  label: string;
+  node: RNode;
+  count: number;
+}
 
 const NODE_ROOT = '_';
-const nextIds = new Map<IStore, { next: number }>();
-const mutex = new MutexRW();
+const NODE_ID = '#';
+const NODE_FREE = '!';
+// Trees kept by a tree for itself are named with a leading character that the
+// `name` option rejects, so that they never share keys with the user's trees
+const INTERNAL = '$';
+// Index entries are keyed by the index key and the primary key joined by it
+const INDEX_SEP = '\0';
+// Loops read this many entries at a time, holding the lock meanwhile
+const LOOP_CHUNK = 100;
+// Imports commit and report progress every this many nodes or keys
+const IMPORT_CHUNK = 1000;
+// Expiry entries are keyed by the expiry time, in fixed-width base 36 so that
+// they sort by time, and the key
+const EXPIRY_WIDTH = 9;
+const PURGE_CHUNK = 1000;
+
+function expiryKey(time: number, key: string) {
+  const t = Math.max(0, time).toString(36);
+  return t.padStart(EXPIRY_WIDTH, '0') + INDEX_SEP + key;
+}
+
+// Labels are never split between the two halves of a surrogate pair, so two
+// entries of a node may start with the same high surrogate, and the leaf of
+// a key ending with a lone high surrogate may be a prefix of its siblings
+function splitsPair(key: string, at: number) {
+  const code = key.charCodeAt(at - 1);
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+// The first character of a label, a surrogate pair being one character
+function head(label: string) {
+  return label.slice(0, splitsPair(label, 1) ? 2 : 1);
+}
+
+// Number of the keys of a sorted array starting with a prefix
+function countPrefixed(keys: string[], prefix: string) {
+  let low = 0;
+  let high = keys.length;
+  while (low < high) {
+    const mid = low + high >> 1;
+    if (keys[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  let count = 0;
+  while (keys[low + count]?.startsWith(prefix)) ++count;
+  return count;
+}
+// Instances sharing a store share its locks by default
+const locks = new WeakMap<IStore, ILockProvider>();
+// Instances of a tree over the same store share its snapshots, by root
+const snapshots = new WeakMap<IStore, Map<string, RSnapshots>>();
+// Ids of the nodes created by a transaction, which may be changed in place
+// even while snapshots are open
+const created = new WeakMap<Txn, Set<string>>();
+
+// Moves the bounds of a query on index keys past the separator, so that they
+// apply to the index entry keys; the exact bounds are checked on index keys
+function indexBounds({ prefix, gt, gte, lt, lte }: Query): Query {
+  return {
+    prefix,
+    gte: gt === undefined ? gte : gt + '\u0001',
+    lt: lte === undefined ? lt : lte + '\u0001',
+  };
+}
+
 export class Radix<TStore extends IStore = IStore> {
-  private m_id: { next: number };
-  private m_recycleIds = new Set<string>();
+  private m_prefix: string;
+  private m_root: string;
+  private m_lock: ILockProvider;
+  private m_codec: ICodec;
+  private m_cache?: NodeCache;
+  private m_expiry?: Radix;
+  private m_counts: boolean;
+  private m_indexes = new Map<string, RIndex>();
+  private m_watchers = new Set<RWatcher>();
+  private m_copyOnWrite: boolean;
+  private m_inlineLimit?: number;
+  private m_compare?: KeyCompare;
+  private m_snapshots: RSnapshots;
 
   /**
    * Creates a new instance of the Radix class.
    *
    * @param store The store used for data storage.
+   * @param options Optional settings of the tree.
    */
-  public constructor(public store: TStore) {
-    this.m_id = nextIds.get(store) ?? { next: -1 };
-    nextIds.set(store, this.m_id);
+  public constructor(
+    public store: TStore,
+    options: RadixOptions = {},
+  ) {
+    if (options.name?.startsWith(INTERNAL)) {
+      throw new Error(`Reserved tree name: ${options.name}`);
+    }
+    this.m_prefix = options.name ? `${options.name}:` : '';
+    this.m_root = this.m_prefix + NODE_ROOT;
+    this.m_counts = !!options.counts;
+    this.m_codec = options.codec ?? jsonCodec;
+    this.m_copyOnWrite = !!options.copyOnWrite;
+    this.m_inlineLimit = options.inlineLimit;
+    if (options.compare) this.m_compare = totalOrder(options.compare);
+    if (options.cache) this.m_cache = new NodeCache(options.cache);
+    this.m_lock = options.lock ?? locks.get(store) ?? new LockInProcess();
+    if (!options.lock) locks.set(store, this.m_lock);
+    let trees = snapshots.get(store);
+    if (!trees) snapshots.set(store, trees = new Map());
+    let shared = trees.get(this.m_root);
+    if (!shared) {
+      shared = { open: new Set(), retired: [], taken: 0 };
+      trees.set(this.m_root, shared);
+    }
+    this.m_snapshots = shared;
+  }
+
+  private encode(value: unknown, options?: SetOptions): RLeaf {
+    const { ttl, expiresAt } = options ?? {};
+    const raw = this.m_codec.encode(value);
+    if (expiresAt !== undefined) return [raw, Math.floor(+expiresAt)];
+    return ttl === undefined ? [raw] : [raw, Math.floor(Date.now() + ttl)];
+  }
+
+  private decode(val: RLeaf) {
+    return this.m_codec.decode(val[0]) as JValue;
+  }
+
+  private live<L extends RStored>(val?: L) {
+    return val && (val[1] === undefined || val[1] > Date.now())
+      ? val
+      : undefined;
+  }
+
+  // Stores a value under a key of its own when it is larger than the limit
+  private async save(tx: Txn, leaf: RLeaf): Promise<RStored> {
+    const [raw, ...rest] = leaf;
+    if (raw.length <= (this.m_inlineLimit ?? Infinity)) return leaf;
+    const id = await this.nextId(tx);
+    await tx.set(id, raw);
+    return [[id], ...rest];
+  }
+
+  private async load(tx: Txn, leaf: RStored): Promise<RLeaf> {
+    const [data, ...rest] = leaf;
+    if (typeof data === 'string') return [data, ...rest];
+    const raw = await tx.get<string>(data[0]);
+    if (typeof raw !== 'string') throw new Error(`Missing value: ${data[0]}`);
+    return [raw, ...rest];
+  }
+
+  private async unload(tx: Txn, leaf: RStored) {
+    if (typeof leaf[0] !== 'string') await this.freeId(tx, leaf[0][0]);
+  }
+
+  // Creates a tree kept for this one, named after it and the given parts
+  private internal(parts: string[], options?: RadixOptions) {
+    const owner = encodeURIComponent(this.m_prefix.slice(0, -1));
+    const tree = new Radix(this.store, options);
+    tree.m_prefix = `${INTERNAL}${[owner, ...parts].join(':')}:`;
+    tree.m_root = tree.m_prefix + NODE_ROOT;
+    return tree;
+  }
+
+  private get expiry() {
+    this.m_expiry ??= this.internal(['expiry']);
+    return this.m_expiry;
+  }
+
+  private compile(query?: Query) {
+    return compileQuery(query, this.m_compare);
+  }
+
+  // Keys are stored in the order of their code units: under a compare
+  // function, the keys matching a query are collected and sorted instead.
+  // With a count, only that many keys are kept, sorted as they are read
+  private async sortedKeys(tx: Txn, query: Query) {
+    // An infinite count, such as that of an unbounded page, keeps every key
+    const count = Number.isFinite(query.count) ? query.count! : -1;
+    const compare = this.m_compare!;
+    const order =
+      query.sort === -1 ? (a: string, b: string) => compare(b, a) : compare;
+    const keys = [] as string[];
+    if (!count) return keys;
+    for await (const [key] of this._loop(tx, {
+      ...this.compile({ ...query, select: [] }),
+      count: -1,
+      sort: 1,
+    })) {
+      if (count < 0) {
+        keys.push(key);
+        continue;
+      }
+      if (keys.length === count && order(key, keys[count - 1]) > 0) continue;
+      let low = 0;
+      let high = keys.length;
+      while (low < high) {
+        const mid = low + high >> 1;
+        if (order(keys[mid], key) < 0) low = mid + 1;
+        else high = mid;
+      }
+      keys.splice(low, 0, key);
+      if (keys.length > count) keys.pop();
+    }
+    return count < 0 ? keys.sort(order) : keys;
+  }
+
+  // Reads the values of keys, skipping those no longer matching the query
+  private async readKeys<T>(tx: Txn, keys: string[], query: Query) {
+    const { where, select: paths } = this.compile(query);
+    const items = [] as [string, T][];
+    for (const key of keys) {
+      const val = await this._get(tx, key);
+      if (!val) continue;
+      const value = this.decode(val);
+      if (where && !where(value, key)) continue;
+      items.push([key, (paths ? select(value, paths) : value) as T]);
+    }
+    return items;
   }
 
   private nodeSort(node: RNode) {
     return node.sort((a, b) => +(a[0] > b[0]) - 0.5);
   }
 
-  private async nextId() {
-    if (this.m_recycleIds.size) {
-      const id = this.m_recycleIds.values().next().value as string;
-      this.m_recycleIds.delete(id);
-      return id;
+  private async recount(
+    tx: Txn,
+    prevNodes: [string, RNode, number][],
+    by: number,
+  ) {
+    for (const [path, node, i] of prevNodes) {
+      const entry = node[i];
+      if (entry[2] === undefined) continue;
+      entry[2] += by;
+      await tx.set(path, node);
     }
-    if (this.m_id.next < 0) {
-      this.m_id.next = await this.store.get<number>(`#`) ?? 0;
+  }
+
+  private async nextId(tx: Txn) {
+    const id = await this.allocate(tx);
+    if (!created.has(tx)) created.set(tx, new Set());
+    created.get(tx)!.add(id);
+    return id;
+  }
+
+  private async allocate(tx: Txn) {
+    const free = await tx.get<string[]>(this.m_prefix + NODE_FREE) ?? [];
+    if (free.length) {
+      const id = free.pop()!;
+      await tx.set(this.m_prefix + NODE_FREE, free);
+      return id;
     }
-    const id = this.m_id.next.toString(36);
-    await this.store.set(`#`, ++this.m_id.next);
+    // The counter is read through the transaction rather than cached, as
+    // other instances, possibly in other processes, allocate ids as well
+    const next = await tx.get<number>(this.m_prefix + NODE_ID) ?? 0;
+    const id = this.m_prefix + next.toString(36);
+    await tx.set(this.m_prefix + NODE_ID, next + 1);
     return id;
   }
 
-  // TODO: Cover with tests
+  private async freeId(tx: Txn, id: string) {
+    if (this.shared(tx, id)) {
+      this.retire(tx, id);
+      return;
+    }
+    await this.freeIds(tx, [id]);
+  }
+
+  private async freeIds(tx: Txn, ids: string[]) {
+    const free = await tx.get<string[]>(this.m_prefix + NODE_FREE) ?? [];
+    for (const id of ids) {
+      free.push(id);
+      await tx.del(id);
+    }
+    await tx.set(this.m_prefix + NODE_FREE, free);
+  }
+
+  // Whether an open snapshot may read a node
+  private shared(tx: Txn, path: string) {
+    if (!this.m_snapshots.open.size || path === this.m_root) return false;
+    return !created.get(tx)?.has(path);
+  }
+
+  // Keeps a node as it was committed until the snapshots reading it are closed
+  private retire(tx: Txn, id: string) {
+    const { taken } = this.m_snapshots;
+    tx.revert(id);
+    tx.onCommit(() => this.m_snapshots.retired.push([taken, id]));
+  }
+
+  // Writes a changed node. A node an open snapshot may read is written under
+  // a new id instead, and so are its ancestors, up to the first node that is
+  // not shared
+  private async writeNode(
+    tx: Txn,
+    prevNodes: [string, RNode, number][],
+    path: string,
+    node: RNode,
+  ) {
+    for (let i = prevNodes.length; ;) {
+      if (!this.shared(tx, path)) {
+        await tx.set(path, node);
+        return path;
+      }
+      const id = await this.nextId(tx);
+      this.retire(tx, path);
+      await tx.set(id, node);
+      if (!i--) return id;
+      const [prevPath, prevNode, prevI] = prevNodes[i];
+      prevNode[prevI][1] = id;
+      path = prevPath;
+      node = prevNode;
+    }
+  }
+
+  private async read<R>(fn: (tx: Txn) => Promise<R>) {
+    const release = await this.m_lock.read(this.m_root);
+    try {
+      return await fn(new Txn(this.store, this.m_cache));
+    } finally {
+      await release();
+    }
+  }
+
+  private async write<R>(fn: (tx: Txn) => Promise<R>) {
+    const release = await this.m_lock.write(this.m_root);
+    try {
+      const tx = new Txn(this.store, this.m_cache);
+      const result = await fn(tx);
+      await tx.commit();
+      return result;
+    } finally {
+      await release();
+    }
+  }
+
+  private async _get(tx: Txn, key: string) {
+    let node = await tx.get<RNode>(this.m_root) ?? [];
+    let trav = true;
+    while (trav) {
+      trav = false;
+      for (const [n, v] of node) {
+        if (n[0] !== key[0]) continue;
+        if (key.slice(0, n.length) === n) {
+          if (Array.isArray(v) && key.length > n.length) continue;
+          key = key.slice(n.length, key.length);
+          if (Array.isArray(v)) {
+            const leaf = this.live(v);
+            return leaf && this.load(tx, leaf);
+          }
+          node = await tx.get<RNode>(v) ?? [];
+          trav = true;
+          break;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private async _set(
+    tx: Txn,
+    key: string,
+    val: RLeaf | RUpdate,
+  ): Promise<RLeaf | undefined> {
+    let nodePathOld = this.m_root;
+    let node = await tx.get<RNode>(nodePathOld) ?? [];
+    const prevNodes = [] as [string, RNode, number][];
+    let traverse = true;
+    while (traverse) {
+      traverse = false;
+      for (let i = 0; i < node.length; ++i) {
+        const [k, v] = node[i];
+        if (k[0] !== key[0]) continue;
+        let kNew = '';
+        let kLeft = k;
+        while (k && key && kLeft[0] === key[0]) {
+          kNew += kLeft.slice(0, 1);
+          kLeft = kLeft.slice(1, kLeft.length);
+          key = key.slice(1, key.length);
+        }
+        if ((kLeft || key) && splitsPair(kNew, kNew.length)) {
+          kLeft = kNew.slice(-1) + kLeft;
+          key = kNew.slice(-1) + key;
+          kNew = kNew.slice(0, -1);
+          if (!kNew) continue;
+        }
+        if (key && !kLeft || k === kNew) {
+          if (Array.isArray(v)) {
+            if (key === kLeft && !kLeft) {
+              const prev = await this.load(tx, v);
+              const next = typeof val === 'function' ? await val(prev) : val;
+              if (!next) return prev;
+              node[i] = [k, await this.save(tx, next)];
+              await this.unload(tx, v);
+              await this.writeNode(tx, prevNodes, nodePathOld, node);
+              return prev;
+            }
+          } else {
+            prevNodes.push([nodePathOld, node, i]);
+            nodePathOld = v;
+            node = await tx.get<RNode>(nodePathOld) ?? [];
+            traverse = true;
+            break;
+          }
+        }
+        const next = typeof val === 'function' ? await val() : val;
+        if (!next) return undefined;
+        const nodePathNew = await this.nextId(tx);
+        const [entryOld] = node.splice(i, 1);
+        entryOld[0] = kLeft;
+        const count = Array.isArray(v) ? 1 : entryOld[2];
+        node.push(
+          this.m_counts && count !== undefined
+            ? [kNew, nodePathNew, count + 1]
+            : [kNew, nodePathNew],
+        );
+        const leaf = await this.save(tx, next);
+        await tx.set(nodePathNew, this.nodeSort([[key, leaf], entryOld]));
+        // Counts are changed first, as writing the node may move its ancestors
+        await this.recount(tx, prevNodes, 1);
+        await this.writeNode(tx, prevNodes, nodePathOld, this.nodeSort(node));
+        return undefined;
+      }
+      if (!traverse) {
+        const next = typeof val === 'function' ? await val() : val;
+        if (!next) return undefined;
+        node.push([key, await this.save(tx, next)]);
+        await this.recount(tx, prevNodes, 1);
+        await this.writeNode(tx, prevNodes, nodePathOld, this.nodeSort(node));
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+
+  private async _del(tx: Txn, key: string) {
+    let nodePath = this.m_root;
+    let node = await tx.get<RNode>(nodePath);
+    if (!node) return undefined;
+    // Branches walked through: node path, node and index of the entry taken
+    const prevNodes = [] as [string, RNode, number][];
+    let leaf: RLeaf;
+    for (;;) {
+      const i = node.findIndex(
+        ([n, v]) =>
+          n[0] === key[0] &&
+          key.slice(0, n.length) === n &&
+          (!Array.isArray(v) || key.length === n.length),
+      );
+      if (i < 0) return undefined;
+      const [n, v] = node[i];
+      key = key.slice(n.length, key.length);
+      if (Array.isArray(v)) {
+        if (key) return undefined;
+        node.splice(i, 1);
+        leaf = await this.load(tx, v);
+        await this.unload(tx, v);
+        break;
+      }
+      prevNodes.push([nodePath, node, i]);
+      nodePath = v;
+      node = await tx.get<RNode>(nodePath) ?? [];
+    }
+    await this.recount(tx, prevNodes, -1);
+    // Branches (except for root) must keep at least two entries: a single
+    // entry left is merged into the parent, an empty branch is dropped
+    while (prevNodes.length && node.length < 2) {
+      const [prevPath, prevNode, prevI] = prevNodes.pop()!;
+      if (node.length) {
+        const [entry] = node;
+        entry[0] = prevNode[prevI][0] + entry[0];
+        prevNode[prevI] = entry;
+      } else {
+        prevNode.splice(prevI, 1);
+      }
+      await this.freeId(tx, nodePath);
+      nodePath = prevPath;
+      node = prevNode;
+    }
+    await this.writeNode(tx, prevNodes, nodePath, node);
+    return leaf;
+  }
+
   /**
    * Checks if a given key exists in the Radix store.
    *
@@ -52,27 +590,7 @@ export class Radix<TStore extends IStore = IStore> {
    * @returns A Promise that resolves to true if the key exists, and false otherwise.
    */
   public async has(key: string) {
-    const release = await mutex.obtainRO();
-    try {
-      let node = await this.store.get<RNode>(NODE_ROOT) ?? [];
-      let trav = !!node;
-      while (trav && node) {
-        trav = false;
-        for (const [n, v] of node) {
-          if (n[0] !== key[0]) continue;
-          if (key.slice(0, n.length) === n) {
-            key = key.slice(n.length, key.length);
-            if (!key && Array.isArray(v)) return true;
-            node = await this.store.get<RNode>(v as string) ?? [];
-            trav = true;
-            break;
-          }
-        }
-      }
-      return false;
-    } finally {
-      release();
-    }
+    return this.read(async tx => !!await this._get(tx, key));
   }
 
   /**
@@ -81,28 +599,11 @@ export class Radix<TStore extends IStore = IStore> {
    * @param key The key to retrieve the value for.
    * @returns A Promise that resolves to the value associated with the key, or undefined if the key is not found.
    */
-  public async get<T extends JValue>(key: string) {
-    const release = await mutex.obtainRO();
-    try {
-      let node = await this.store.get<RNode>(NODE_ROOT) ?? [];
-      let trav = !!node;
-      while (trav && node) {
-        trav = false;
-        for (const [n, v] of node) {
-          if (n[0] !== key[0]) continue;
-          if (key.slice(0, n.length) === n) {
-            key = key.slice(n.length, key.length);
-            if (!key && Array.isArray(v)) return JSON.parse(v[0]) as T;
-            node = await this.store.get<RNode>(v as string) ?? [];
-            trav = true;
-            break;
-          }
-        }
-      }
-      return undefined;
-    } finally {
-      release();
-    }
+  public async get<T = JValue>(key: string) {
+    return this.read(async tx => {
+      const val = await this._get(tx, key);
+      return val && (this.decode(val) as T);
+    });
   }
 
   /**
@@ -110,237 +611,1508 @@ export class Radix<TStore extends IStore = IStore> {
    *
    * @param key The key to set the value for.
    * @param value The value to associate with the key.
+   * @param options Optional expiry of the key; a key set without one does not expire.
    * @returns A Promise that resolves when the value is successfully set.
    */
-  public async set<T extends JValue>(key: string, value: T) {
-    const release = await mutex.obtainRW();
-    try {
-      const val = [jsonEncode(value)] as [string];
-      let nodePathOld = NODE_ROOT;
-      let node = await this.store.get<RNode>(nodePathOld) ?? [];
-      let traverse = true;
-      while (traverse) {
-        traverse = false;
-        for (let i = 0; i < node.length; ++i) {
-          const [k, v] = node[i];
-          if (k[0] !== key[0]) continue;
-          let kNew = '';
-          let kLeft = k;
-          while (k && key && kLeft[0] === key[0]) {
-            kNew += kLeft.slice(0, 1);
-            kLeft = kLeft.slice(1, kLeft.length);
-            key = key.slice(1, key.length);
+  public async set<T = JValue>(key: string, value: T, options?: SetOptions) {
+    return this.write(async tx => {
+      await this.put(tx, key, this.encode(value, options));
+    });
+  }
+
+  /**
+   * Deletes a key and its associated value from the Radix store.
+   *
+   * @param key The key to delete.
+   * @returns A Promise that resolves to true if the key was deleted, and false if the key was not found.
+   */
+  public async del(key: string) {
+    return this.write(async tx => !!await this.remove(tx, key));
+  }
+
+  private async put(tx: Txn, key: string, val: RLeaf | RUpdate) {
+    let next: RLeaf | undefined;
+    const stored = await this._set(tx, key, async p => {
+      next = typeof val === 'function' ? await val(this.live(p)) : val;
+      return next;
+    });
+    // An expired value is replaced as if the key was missing
+    const prev = this.live(stored);
+    if (next) {
+      await this.reindex(tx, key, stored, next);
+      this.notify(tx, key, next, prev);
+    }
+    return [prev, next ?? prev] as const;
+  }
+
+  private async modify<T>(
+    key: string,
+    fn: (value: T | undefined, prev?: RLeaf) => Awaitable<T | undefined>,
+  ): Promise<UpdateResult<T>> {
+    return this.write(async tx => {
+      let changed = false;
+      const [prev, val] = await this.put(tx, key, async prev => {
+        const value = await fn(prev && (this.decode(prev) as T), prev);
+        if (value === undefined) return undefined;
+        changed = true;
+        // The expiry of the key is kept
+        const [raw] = this.encode(value);
+        return prev ? ([raw, ...prev.slice(1)] as RLeaf) : [raw];
+      });
+      return {
+        oldValue: prev && (this.decode(prev) as T),
+        value: val && (this.decode(val) as T),
+        changed,
+      };
+    });
+  }
+
+  /**
+   * Replaces the value of a key with the result of a function of it, within
+   * a single lock and traversal of the tree.
+   *
+   * @param key The key to update.
+   * @param fn A function computing the new value from the current one, undefined for a missing key. Returning undefined leaves the key as is.
+   * @returns A Promise that resolves to the values before and after the update.
+   */
+  public async update<T = JValue>(
+    key: string,
+    fn: (value: T | undefined) => Awaitable<T | undefined>,
+  ) {
+    return this.modify<T>(key, value => fn(value));
+  }
+
+  /**
+   * Adds a number to the value of a key. A missing key counts as zero.
+   *
+   * @param key The key to increment.
+   * @param by The number to add.
+   * @returns A Promise that resolves to the values before and after the increment.
+   */
+  public async increment(key: string, by = 1) {
+    return this.modify<number>(key, value => {
+      if (value !== undefined && typeof value !== 'number') {
+        throw new TypeError(`Cannot increment a non-numeric value: ${key}`);
+      }
+      return (value ?? 0) + by;
+    });
+  }
+
+  /**
+   * Sets the value of a key only if its current value is the expected one.
+   * Values are compared by their encoding, so objects must list their keys
+   * in the same order.
+   *
+   * @param key The key to set.
+   * @param expected The expected current value, or undefined for a missing key.
+   * @param value The value to set.
+   * @returns A Promise that resolves to the values before and after, `changed` telling whether the value was set.
+   */
+  public async compareAndSet<T = JValue>(
+    key: string,
+    expected: T | undefined,
+    value: T,
+  ) {
+    return this.modify<T>(key, (_, prev) => {
+      const match =
+        expected === undefined
+          ? !prev
+          : !!prev && prev[0] === this.m_codec.encode(expected);
+      return match ? value : undefined;
+    });
+  }
+
+  /**
+   * Retrieves the value of a key, setting it first if the key is missing.
+   *
+   * @param key The key to retrieve.
+   * @param factory A function creating the value of a missing key.
+   * @returns A Promise that resolves to the values before and after, `changed` telling whether the value was created.
+   */
+  public async getOrSet<T = JValue>(key: string, factory: () => Awaitable<T>) {
+    return this.modify<T>(key, (_, prev) => prev ? undefined : factory());
+  }
+
+  private async remove(tx: Txn, key: string) {
+    const stored = await this._del(tx, key);
+    if (!stored) return undefined;
+    await this.reindex(tx, key, stored, undefined);
+    const prev = this.live(stored);
+    if (prev) this.notify(tx, key, undefined, prev);
+    return prev;
+  }
+
+  private notify(tx: Txn, key: string, val?: RLeaf, prev?: RLeaf) {
+    if (!this.m_watchers.size) return;
+    // Watchers are called with the write lock still held, so they see the
+    // changes in commit order
+    tx.onCommit(() => {
+      for (const watcher of this.m_watchers) watcher(key, val, prev);
+    });
+  }
+
+  private index(name: string) {
+    const index = this.m_indexes.get(name);
+    if (!index) throw new Error(`Unknown index: ${name}`);
+    return index;
+  }
+
+  private indexKeys(index: RIndex, key: string, value?: JValue) {
+    if (value === undefined) return [];
+    const keys = index.keys(value, key) ?? [];
+    return [...new Set(Array.isArray(keys) ? keys : [keys])];
+  }
+
+  private async reindex(
+    tx: Txn,
+    key: string,
+    prev: RLeaf | undefined,
+    val: RLeaf | undefined,
+  ) {
+    const [, prevExpiry] = prev ?? [];
+    const [, expiry] = val ?? [];
+    if (prevExpiry !== expiry && prevExpiry !== undefined) {
+      await this.expiry._del(tx, expiryKey(prevExpiry, key));
+    }
+    if (prevExpiry !== expiry && expiry !== undefined) {
+      await this.expiry._set(
+        tx,
+        expiryKey(expiry, key),
+        this.expiry.encode(key),
+      );
+    }
+    for (const index of this.m_indexes.values()) {
+      const prevKeys = this.indexKeys(index, key, prev && this.decode(prev));
+      const keys = this.indexKeys(index, key, val && this.decode(val));
+      for (const k of prevKeys) {
+        if (!keys.includes(k)) await index.tree._del(tx, k + INDEX_SEP + key);
+      }
+      for (const k of keys) {
+        if (prevKeys.includes(k)) continue;
+        await index.tree._set(tx, k + INDEX_SEP + key, index.tree.encode(key));
+      }
+    }
+  }
+
+  // Values of the removed keys are only read for the indexes and watchers;
+  // the expiry, kept within the stored leaf, is all the rest needs
+  private async removedLeaf(tx: Txn, v: RStored) {
+    return this.m_indexes.size || this.m_watchers.size ? this.load(tx, v) : v;
+  }
+
+  private async dropBranch(
+    tx: Txn,
+    path: string,
+    removed: [string, RStored][],
+    key: string,
+  ): Promise<number> {
+    const node = await tx.get<RNode>(path) ?? [];
+    let count = 0;
+    for (const [k, v] of node) {
+      if (Array.isArray(v)) {
+        removed.push([key + k, await this.removedLeaf(tx, v)]);
+        await this.unload(tx, v);
+        ++count;
+      } else {
+        count += await this.dropBranch(tx, v, removed, key + k);
+      }
+    }
+    await this.freeId(tx, path);
+    return count;
+  }
+
+  private async _delRange(
+    tx: Txn,
+    query: CompiledQuery,
+    removed: [string, RStored][] = [],
+    key = '',
+    root = this.m_root,
+    parent?: REntry,
+  ): Promise<number> {
+    const node = await tx.get<RNode>(root) ?? [];
+    let count = 0;
+    for (let i = 0; i < node.length; ++i) {
+      const entry = node[i];
+      const [k, v] = entry;
+      const keyAcc = key + k;
+      if (Array.isArray(v)) {
+        if (!await this.matches(tx, query, keyAcc, v)) continue;
+        node.splice(i--, 1);
+        removed.push([keyAcc, await this.removedLeaf(tx, v)]);
+        await this.unload(tx, v);
+        ++count;
+        continue;
+      }
+      if (!query.filter(keyAcc, true)) continue;
+      if (query.cover(keyAcc)) {
+        // The whole branch is unlinked at once
+        count += await this.dropBranch(tx, v, removed, keyAcc);
+        node.splice(i--, 1);
+        continue;
+      }
+      const removedBranch = await this._delRange(
+        tx,
+        query,
+        removed,
+        keyAcc,
+        v,
+        entry,
+      );
+      if (!removedBranch) continue;
+      count += removedBranch;
+      if (entry[2] !== undefined) entry[2] -= removedBranch;
+      // The branch may have been written under a new id
+      const child = await tx.get<RNode>(entry[1] as string) ?? [];
+      if (child.length > 1) continue;
+      // Same as for a single delete, the branch is collapsed or dropped
+      await this.freeId(tx, entry[1] as string);
+      if (child.length) {
+        child[0][0] = k + child[0][0];
+        node[i] = child[0];
+      } else {
+        node.splice(i--, 1);
+      }
+    }
+    if (count) {
+      const path = await this.writeNode(tx, [], root, node);
+      if (parent) parent[1] = path;
+    }
+    return count;
+  }
+
+  /**
+   * Deletes every key starting with a given prefix. Branches within the
+   * prefix are unlinked without reading the values of their keys, unless
+   * indexes or watchers need them.
+   *
+   * @param prefix The prefix of the keys to delete.
+   * @returns A Promise that resolves to the number of keys deleted.
+   */
+  public async delPrefix(prefix: string) {
+    return this.delRange({ prefix });
+  }
+
+  /**
+   * Deletes every key matching a query. Branches entirely within the query
+   * are unlinked without reading the values of their keys, unless indexes or
+   * watchers need them. The `count` and `sort` of the query are ignored.
+   *
+   * @param query The query object to match the keys to delete.
+   * @returns A Promise that resolves to the number of keys deleted.
+   */
+  public async delRange(query: Query) {
+    return this.write(async tx => {
+      const removed = [] as [string, RStored][];
+      await this._delRange(tx, this.compile(query), removed);
+      // Expired keys of the branches dropped are removed, but not counted
+      let count = 0;
+      for (const [key, stored] of removed) {
+        // The value is loaded whenever the indexes or watchers read it
+        const val = stored as RLeaf;
+        await this.reindex(tx, key, val, undefined);
+        if (!this.live(val)) continue;
+        this.notify(tx, key, undefined, val);
+        ++count;
+      }
+      return count;
+    });
+  }
+
+  /**
+   * Deletes the expired keys. Expired keys are hidden from reads, including
+   * `count`, `rank` and `at`, as soon as they expire, but stay in the store
+   * until they are purged. Keys are purged a chunk at a time, each chunk being a
+   * transaction of its own. Watchers are not notified of purged keys.
+   *
+   * @returns A Promise that resolves to the number of keys deleted.
+   */
+  public async purgeExpired() {
+    let purged = 0;
+    for (;;) {
+      const [count, done] = await this.write(async tx => {
+        const query = compileQuery({ lt: expiryKey(Date.now() + 1, '') });
+        const entries = [] as [string, JValue][];
+        for await (const entry of this.expiry._loop(tx, {
+          ...query,
+          count: PURGE_CHUNK,
+          sort: 1,
+        })) {
+          entries.push(entry);
+        }
+        let count = 0;
+        for (const [entry, key] of entries) {
+          const stored = await this._del(tx, key as string);
+          if (stored) {
+            await this.reindex(tx, key as string, stored, undefined);
+            ++count;
+          } else {
+            await this.expiry._del(tx, entry);
+          }
+        }
+        return [count, entries.length < PURGE_CHUNK] as const;
+      });
+      purged += count;
+      if (done) return purged;
+    }
+  }
+
+  /**
+   * Applies several set and delete operations as one unit: either all of
+   * them are written to the store, or none is. Nodes shared by several
+   * operations are written once.
+   *
+   * @param ops The operations to apply, in order.
+   * @returns A Promise that resolves when all the operations are committed.
+   */
+  public async batch(ops: BatchOp[]) {
+    return this.write(async tx => {
+      for (const op of ops) {
+        if (op.type === 'set') {
+          await this.put(tx, op.key, this.encode(op.value, op));
+        } else {
+          await this.remove(tx, op.key);
+        }
+      }
+    });
+  }
+
+  /**
+   * Runs a callback within a transaction. Reads made through the transaction
+   * see its own pending writes; the writes are committed once the callback
+   * resolves, and discarded if it throws. Calling the Radix itself from within
+   * the callback deadlocks, use the transaction object instead.
+   *
+   * @param fn The callback to run.
+   * @returns A Promise that resolves to the result of the callback.
+   */
+  public async transaction<R>(fn: (tx: ITransaction) => Awaitable<R>) {
+    return this.write(tx =>
+      Promise.resolve(
+        fn({
+          get: async <T = JValue>(key: string) => {
+            const val = await this._get(tx, key);
+            return val && (this.decode(val) as T);
+          },
+          has: async key => !!await this._get(tx, key),
+          set: async (key, value, options) => {
+            await this.put(tx, key, this.encode(value, options));
+          },
+          del: async key => !!await this.remove(tx, key),
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Takes a read-only snapshot of the tree, which keeps reading the tree as
+   * it is now while later writes go on. Reads from a snapshot do not take the
+   * lock, so long loops over it hold back no writer. Requires the
+   * `copyOnWrite` option; close the snapshot to free the node versions only
+   * it reads.
+   *
+   * @returns A Promise that resolves to the snapshot.
+   */
+  public async snapshot(): Promise<ISnapshot> {
+    if (!this.m_copyOnWrite) {
+      throw new Error('Snapshots require the copyOnWrite option');
+    }
+    const [taken, root] = await this.read(async tx => {
+      const root = await tx.get<RNode>(this.m_root) ?? [];
+      const taken = ++this.m_snapshots.taken;
+      this.m_snapshots.open.add(taken);
+      return [taken, root] as const;
+    });
+    // The root is the only node changed in place, so its version is pinned
+    // within the transactions the snapshot reads through
+    const pinned = async () => {
+      if (!this.m_snapshots.open.has(taken))
+        throw new Error('Snapshot is closed');
+      const tx = new Txn(this.store, this.m_cache);
+      await tx.set(this.m_root, root);
+      return tx;
+    };
+    return {
+      get: async <T = JValue>(key: string) => {
+        const val = await this._get(await pinned(), key);
+        return val && (this.decode(val) as T);
+      },
+      has: async key => !!await this._get(await pinned(), key),
+      loop: <T = JValue>(query: Query = {}) =>
+        this.loopPinned<T>(pinned, query),
+      close: async () => {
+        if (this.m_snapshots.open.delete(taken)) await this.collect();
+      },
+    };
+  }
+
+  private async *loopPinned<T>(pinned: () => Promise<Txn>, query: Query) {
+    const tx = await pinned();
+    if (this.m_compare) {
+      const keys = await this.sortedKeys(tx, query);
+      yield* await this.readKeys<T>(tx, keys, query);
+      return;
+    }
+    yield* this._loop<T>(tx, {
+      ...this.compile(query),
+      count: query.count ?? -1,
+      sort: query.sort === -1 ? 0 : 1,
+    });
+  }
+
+  // Frees the retired nodes no open snapshot reads
+  private async collect() {
+    await this.write(async tx => {
+      const { open, retired } = this.m_snapshots;
+      const oldest = Math.min(...open);
+      const freed = retired.filter(([taken]) => taken < oldest);
+      if (!freed.length) return;
+      await this.freeIds(
+        tx,
+        freed.map(([, id]) => id),
+      );
+      tx.onCommit(() => {
+        this.m_snapshots.retired = this.m_snapshots.retired.filter(
+          r => !freed.includes(r),
+        );
+      });
+    });
+  }
+
+  /**
+   * Writes the writes kept by a write-back cache to the store. Does nothing
+   * without such a cache.
+   *
+   * @returns A Promise that resolves once the writes are in the store.
+   */
+  public async flush() {
+    const cache = this.m_cache;
+    if (cache?.writeBack) await this.write(() => flushCache(this.store, cache));
+  }
+
+  /**
+   * Reports the use of the node cache since the tree was created.
+   *
+   * @returns The cache statistics, or undefined without a cache.
+   */
+  public cacheStats(): CacheStats | undefined {
+    return this.m_cache?.stats();
+  }
+
+  /**
+   * Renumbers the nodes of the tree densely, removes node keys that are not
+   * reachable from the root, clears the free list and resets the id counter.
+   * Branch key counts are refreshed, and added if the tree keeps counts.
+   *
+   * @returns A Promise that resolves to a report of the compaction.
+   */
+  public async compact(): Promise<CompactReport> {
+    return this.write(async tx => {
+      this.exclusive(tx, 'compact');
+      const idKey = this.m_prefix + NODE_ID;
+      const idCount = await tx.get<number>(idKey) ?? 0;
+      const nodes = [] as [string, RNode][];
+      const values = [] as [string, string][];
+      const ids = new Map<string, string>();
+      const walk = async (path: string) => {
+        const node = await tx.get<RNode>(path) ?? [];
+        nodes.push([path, node]);
+        let count = 0;
+        for (const entry of node) {
+          const [, v] = entry;
+          if (Array.isArray(v)) {
+            // Values stored out of line are renumbered along with the nodes
+            const [data] = v;
+            if (Array.isArray(data)) {
+              ids.set(data[0], this.m_prefix + ids.size.toString(36));
+              values.push([data[0], await tx.get<string>(data[0]) ?? '']);
+            }
+            ++count;
+            continue;
           }
-          if (key && !kLeft || k === kNew) {
-            if (Array.isArray(v)) {
-              if (key === kLeft && !kLeft) {
-                node[i] = [k, val];
-                await this.store.set(nodePathOld, node);
-                return;
-              }
-            } else {
-              nodePathOld = v;
-              node = await this.store.get<RNode>(nodePathOld) ?? [];
-              traverse = true;
-              break;
+          ids.set(v, this.m_prefix + ids.size.toString(36));
+          const countBranch = await walk(v);
+          if (this.m_counts || entry.length > 2) entry[2] = countBranch;
+          count += countBranch;
+        }
+        return count;
+      };
+      await walk(this.m_root);
+      let orphans = 0;
+      for (let i = 0; i < idCount; ++i) {
+        const id = this.m_prefix + i.toString(36);
+        if (ids.has(id) || await tx.get(id) === undefined) continue;
+        ++orphans;
+        await tx.del(id);
+      }
+      for (const [path] of [...nodes, ...values]) {
+        if (path !== this.m_root) await tx.del(path);
+      }
+      for (const [path, node] of nodes) {
+        for (const entry of node) {
+          const [, v] = entry;
+          if (!Array.isArray(v)) entry[1] = ids.get(v)!;
+          else if (Array.isArray(v[0])) v[0] = [ids.get(v[0][0])!];
+        }
+        await tx.set(path === this.m_root ? path : ids.get(path)!, node);
+      }
+      for (const [id, raw] of values) await tx.set(ids.get(id)!, raw);
+      await tx.del(this.m_prefix + NODE_FREE);
+      await tx.set(idKey, ids.size);
+      return {
+        nodes: ids.size - values.length,
+        orphans,
+        reclaimed: idCount - ids.size,
+      };
+    });
+  }
+
+  // Renumbering or dropping nodes would change them under the open snapshots;
+  // the retired nodes are dropped along with the unreachable ones
+  private exclusive(tx: Txn, operation: string) {
+    if (this.m_snapshots.open.size) {
+      throw new Error(`Cannot ${operation} while snapshots are open`);
+    }
+    tx.onCommit(() => {
+      this.m_snapshots.retired = [];
+    });
+  }
+
+  private async inspect(tx: Txn) {
+    const issues = [] as VerifyIssue[];
+    const entries = [] as [string, RLeaf][];
+    const idCount = await tx.get<number>(this.m_prefix + NODE_ID) ?? 0;
+    const free = new Set(await tx.get<string[]>(this.m_prefix + NODE_FREE));
+    const visited = new Set<string>();
+    // Ids of the values stored out of line
+    const values = new Set<string>();
+    let leaves = 0;
+    const walk = async (path: string, key: string) => {
+      // A tree without a root is empty
+      const node =
+        await tx.get<RNode>(path) ?? (path === this.m_root ? [] : undefined);
+      if (!Array.isArray(node)) {
+        issues.push({ type: node ? 'malformed' : 'dangling', node: path, key });
+        return;
+      }
+      if (path !== this.m_root && node.length < 2) {
+        issues.push({ type: 'collapsible', node: path, key });
+      }
+      const labels = new Set<string>();
+      const names = [] as string[];
+      const branches = [] as string[];
+      let label: string | undefined;
+      for (const entry of node) {
+        if (!Array.isArray(entry) || typeof entry[0] !== 'string') {
+          issues.push({ type: 'malformed', node: path, key });
+          continue;
+        }
+        const [k, v] = entry;
+        const keyAcc = key + k;
+        if (label !== undefined && label > k) {
+          issues.push({ type: 'unsorted', node: path, key: keyAcc });
+        }
+        label = k;
+        // A branch hides the siblings its label is a prefix of
+        const hidden = Array.isArray(v)
+          ? branches.some(b => k.startsWith(b))
+          : names.some(n => n.startsWith(k));
+        if (labels.has(head(k)) || hidden) {
+          issues.push({ type: 'duplicate', node: path, key: keyAcc });
+        }
+        labels.add(head(k));
+        names.push(k);
+        if (!Array.isArray(v)) branches.push(k);
+        if (Array.isArray(v)) {
+          ++leaves;
+          const [data] = v;
+          if (Array.isArray(data)) {
+            values.add(data[0]);
+            if (typeof await tx.get(data[0]) !== 'string') {
+              issues.push({ type: 'dangling', node: data[0], key: keyAcc });
+              continue;
             }
           }
-          const nodePathNew = await this.nextId();
-          node.splice(i as unknown as number, 1);
-          node.push([kNew, nodePathNew]);
-          await this.store.set(nodePathOld, this.nodeSort(node));
-          node = [
-            [key, val],
-            [kLeft, v],
-          ];
-          await this.store.set(nodePathNew, this.nodeSort(node));
-          return;
+          try {
+            const leaf = await this.load(tx, v);
+            this.decode(leaf);
+            entries.push([keyAcc, leaf]);
+          } catch {
+            issues.push({ type: 'unparseable', node: path, key: keyAcc });
+          }
+          continue;
         }
-        if (!traverse && node) {
-          node.push([key, val]);
-          await this.store.set(nodePathOld, this.nodeSort(node));
-          return;
+        if (typeof v !== 'string') {
+          issues.push({ type: 'malformed', node: path, key: keyAcc });
+          continue;
+        }
+        if (visited.has(v)) {
+          issues.push({ type: 'shared', node: v, key: keyAcc });
+          continue;
+        }
+        visited.add(v);
+        const id = v.startsWith(this.m_prefix)
+          ? parseInt(v.slice(this.m_prefix.length), 36)
+          : NaN;
+        if (!(id < idCount)) {
+          issues.push({ type: 'overflow', node: v, key: keyAcc });
+        }
+        if (free.has(v)) {
+          issues.push({ type: 'freed', node: v, key: keyAcc });
+        }
+        const leavesBefore = leaves;
+        await walk(v, keyAcc);
+        if (entry[2] !== undefined && entry[2] !== leaves - leavesBefore) {
+          issues.push({ type: 'miscounted', node: v, key: keyAcc });
         }
       }
-    } finally {
-      release();
+    };
+    await walk(this.m_root, '');
+    // Nodes kept for the open snapshots are expected
+    const retired = new Set(this.m_snapshots.retired.map(([, id]) => id));
+    for (let i = 0; i < idCount; ++i) {
+      const id = this.m_prefix + i.toString(36);
+      if (visited.has(id) || values.has(id)) continue;
+      if (free.has(id) || retired.has(id)) continue;
+      if (await tx.get(id) !== undefined) {
+        issues.push({ type: 'unreachable', node: id });
+      }
     }
+    return { issues, entries, visited, idCount };
   }
 
   /**
-   * Deletes a key and its associated value from the Radix store.
+   * Walks the tree from its root and reports structural problems.
    *
-   * @param key The key to delete.
-   * @returns A Promise that resolves to true if the key was deleted, and false if the key was not found.
+   * @returns A Promise that resolves to a report of the issues found.
    */
-  public async del(key: string) {
-    const release = await mutex.obtainRW();
-    try {
-      let curNodePath = NODE_ROOT;
-      let node = await this.store.get<RNode>(curNodePath);
-      if (!node) return false;
-      let trav = !!node;
-      const prevNodes = [] as [number, string, string, RNode][];
-      while (trav && node) {
-        trav = false;
-        for (let i = 0; i < node.length; ++i) {
-          const [n, v] = node[i];
-          if (n[0] !== key[0]) continue;
-          if (key.slice(0, n.length) === n) {
-            key = key.slice(n.length, key.length);
-            if (Array.isArray(v)) {
-              node.splice(i, 1);
-              switch (node.length) {
-                case 0: {
-                  console.log('NEW: '); // TODO: remove? Only for root node? Should never be the case
-                  // No subnodes left, removing
-                  const prevNode = prevNodes.pop();
-                  if (!prevNode) return true;
-                  const [curI, , curNodePath] = prevNode;
-                  await this.store.del(curNodePath);
-                  this.m_recycleIds.add(curNodePath);
-                  node = await this.store.get<RNode>(curNodePath);
-                  if (!node) return true;
-                  node.splice(curI, 1);
-                  await this.store.set(curNodePath, node);
-                  return true;
-                }
-                case 1: {
-                  // One subnode left, collapsing
-                  await this.store.del(curNodePath);
-                  this.m_recycleIds.add(curNodePath);
-                  let prevNode = prevNodes.pop();
-                  if (!prevNode) return true;
-                  const [prevI, prevN] = prevNode;
-                  prevNode = prevNodes.pop() ?? [-1, '', NODE_ROOT, []];
-                  const nodeOld = node;
-                  [, , curNodePath, node] = prevNode;
-                  const fieldNew = nodeOld[0];
-                  fieldNew[0] = prevN + fieldNew[0];
-                  node.splice(prevI, 1, fieldNew);
-                  await this.store.set(curNodePath, node);
-                  return true;
-                }
-                default: {
-                  await this.store.set(curNodePath, node);
-                  return true;
-                }
-              }
+  public async verify(): Promise<VerifyReport> {
+    return this.read(async tx => {
+      const { issues, entries, visited } = await this.inspect(tx);
+      return {
+        ok: !issues.length,
+        nodes: visited.size,
+        keys: entries.length,
+        issues,
+        repaired: false,
+      };
+    });
+  }
+
+  /**
+   * Verifies the tree and, if any issue is found, rebuilds it from the keys
+   * that can still be read. Unparseable values and the keys behind dangling
+   * references are lost.
+   *
+   * @returns A Promise that resolves to a report of the issues found.
+   */
+  public async repair(): Promise<VerifyReport> {
+    return this.write(async tx => {
+      this.exclusive(tx, 'repair');
+      const { issues, entries, visited, idCount } = await this.inspect(tx);
+      if (!issues.length) {
+        return {
+          ok: true,
+          nodes: visited.size,
+          keys: entries.length,
+          issues,
+          repaired: false,
+        };
+      }
+      for (const id of visited) await tx.del(id);
+      for (let i = 0; i < idCount; ++i) {
+        await tx.del(this.m_prefix + i.toString(36));
+      }
+      await tx.del(this.m_prefix + NODE_FREE);
+      await tx.set(this.m_prefix + NODE_ID, 0);
+      await tx.set(this.m_root, []);
+      // Of the keys found several times, the last one wins
+      const values = new Map(entries);
+      for (const [key, val] of values) await this._set(tx, key, val);
+      return {
+        ok: false,
+        nodes: await tx.get<number>(this.m_prefix + NODE_ID) ?? 0,
+        keys: values.size,
+        issues,
+        repaired: true,
+      };
+    });
+  }
+
+  private async matches(
+    tx: Txn,
+    query: CompiledQuery,
+    key: string,
+    val: RStored,
+  ) {
+    if (!this.live(val) || !query.filter(key, false)) return false;
+    if (!query.where) return true;
+    return query.where(this.decode(await this.load(tx, val)), key);
+  }
+
+  // Reads, once per operation, the keys that expired but are not purged yet,
+  // in the order of their code units
+  private expired(tx: Txn) {
+    let keys: Promise<string[]> | undefined;
+    return () =>
+      keys ??= (async () => {
+        const result = [] as string[];
+        for await (const [, key] of this.expiry._loop(tx, {
+          ...compileQuery({ lt: expiryKey(Date.now() + 1, '') }),
+          count: -1,
+          sort: 1,
+        })) {
+          result.push(key as string);
+        }
+        return result.sort();
+      })();
+  }
+
+  // Expired keys are never counted: the count kept by a branch includes
+  // them until they are purged, so they are subtracted from it
+  private async _count(
+    tx: Txn,
+    query: CompiledQuery,
+    expired: () => Promise<string[]>,
+    key = '',
+    root = this.m_root,
+  ): Promise<number> {
+    const node = await tx.get<RNode>(root) ?? [];
+    let count = 0;
+    for (const [k, v, c] of node) {
+      const keyAcc = key + k;
+      if (Array.isArray(v)) {
+        if (await this.matches(tx, query, keyAcc, v)) ++count;
+      } else if (query.filter(keyAcc, true)) {
+        // Branches entirely within the query are counted without a visit
+        count +=
+          c !== undefined && query.cover(keyAcc)
+            ? c - countPrefixed(await expired(), keyAcc)
+            : await this._count(tx, query, expired, keyAcc, v);
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Counts the keys in the Radix store matching a query. Branches keeping
+   * their key counts are not visited when entirely within the query.
+   *
+   * @param query An optional query object to filter the keys counted.
+   * @returns A Promise that resolves to the number of matching keys, capped by the query count.
+   */
+  public async count(query?: Query) {
+    return this.read(async tx => {
+      const count = await this._count(
+        tx,
+        this.compile(query),
+        this.expired(tx),
+      );
+      return Math.min(count, query?.count ?? Infinity);
+    });
+  }
+
+  /**
+   * Finds the position of a key in the sorted order of the keys.
+   *
+   * @param key The key to find the position of; it does not have to exist.
+   * @returns A Promise that resolves to the number of keys sorted before the key.
+   */
+  public async rank(key: string) {
+    return this.count({ lt: key });
+  }
+
+  /**
+   * Retrieves the key and value at a given position in the sorted order of
+   * the keys.
+   *
+   * @param index The zero-based position of the key.
+   * @returns A Promise that resolves to the key-value pair, or undefined if the index is out of range.
+   */
+  public async at<T = JValue>(index: number) {
+    return this.read(async tx => {
+      if (this.m_compare) {
+        const keys = await this.sortedKeys(tx, { count: index + 1 });
+        const items = await this.readKeys<T>(
+          tx,
+          keys.slice(index, index + 1),
+          {},
+        );
+        return items[0] as [string, T] | undefined;
+      }
+      const all: CompiledQuery = { filter: noFilter, cover: noFilter };
+      const expired = this.expired(tx);
+      let key = '';
+      let root: string | undefined = this.m_root;
+      while (root !== undefined && index >= 0) {
+        const node: RNode = await tx.get<RNode>(root) ?? [];
+        root = undefined;
+        for (const [k, v, c] of node) {
+          if (Array.isArray(v)) {
+            if (!this.live(v)) continue;
+            if (!index--) {
+              const value = this.decode(await this.load(tx, v)) as T;
+              return [key + k, value] as [string, T];
             }
-            curNodePath = v as string;
-            node = await this.store.get<RNode>(curNodePath);
-            node && prevNodes.push([i, n, curNodePath, node]);
-            trav = true;
+            continue;
+          }
+          const count =
+            c === undefined
+              ? await this._count(tx, all, expired, key + k, v)
+              : c - countPrefixed(await expired(), key + k);
+          if (index < count) {
+            key += k;
+            root = v;
             break;
           }
+          index -= count;
         }
       }
-      return false;
-    } finally {
-      release();
+      return undefined;
+    });
+  }
+
+  // Walks down the path of the input, collecting the leaves along the way:
+  // within a node, a key ending there is the leaf with an empty label
+  private async _prefixesOf(tx: Txn, input: string) {
+    const found = [] as [string, RStored][];
+    let key = '';
+    let path = this.m_root;
+    for (;;) {
+      const node = await tx.get<RNode>(path) ?? [];
+      let next: [string, string] | undefined;
+      for (const [n, v] of node) {
+        if (!input.startsWith(n, key.length)) continue;
+        if (!Array.isArray(v)) {
+          next = [key + n, v];
+        } else if (this.live(v)) {
+          found.push([key + n, v]);
+        }
+      }
+      if (!next) return found;
+      [key, path] = next;
+    }
+  }
+
+  /**
+   * Finds the longest key that is a prefix of a given input, such as the
+   * most specific route of a path.
+   *
+   * @param input The input to match the keys against.
+   * @returns A Promise that resolves to the key-value pair, or undefined if no key is a prefix of the input.
+   */
+  public async longestPrefixOf<T = JValue>(input: string) {
+    return this.read(async tx => {
+      const found = await this._prefixesOf(tx, input);
+      if (!found.length) return undefined;
+      const [key, val] = found[found.length - 1];
+      return [key, this.decode(await this.load(tx, val)) as T] as [string, T];
+    });
+  }
+
+  /**
+   * Finds every key that is a prefix of a given input.
+   *
+   * @param input The input to match the keys against.
+   * @returns A Promise that resolves to the key-value pairs, shortest key first.
+   */
+  public async prefixesOf<T = JValue>(input: string) {
+    return this.read(async tx => {
+      const items = [] as [string, T][];
+      for (const [key, val] of await this._prefixesOf(tx, input)) {
+        items.push([key, this.decode(await this.load(tx, val)) as T]);
+      }
+      return items;
+    });
+  }
+
+  // Walks down to the entry holding every key starting with a prefix, and
+  // returns it along with its key, which may extend beyond the prefix
+  private async entryOf(tx: Txn, prefix: string) {
+    let key = '';
+    let v: string | RStored = this.m_root;
+    while (key.length < prefix.length) {
+      if (Array.isArray(v)) return undefined;
+      const node: RNode = await tx.get<RNode>(v) ?? [];
+      const rest = prefix.slice(key.length);
+      const entry = node.find(
+        ([n, v]) =>
+          n &&
+          (n.startsWith(rest) || rest.startsWith(n) && !Array.isArray(v)),
+      );
+      if (!entry) return undefined;
+      const [n] = entry;
+      key += n;
+      v = entry[1];
     }
+    return [key, v] as [string, string | RStored];
+  }
+
+  /**
+   * Finds the shortest keys starting with a given input, for autocompletion.
+   * Keys of the same length are sorted by code units. Only the branches
+   * that may hold one of the keys returned are read.
+   *
+   * @param partial The start of the keys.
+   * @param limit The maximum number of keys to return.
+   * @returns A Promise that resolves to the key-value pairs, shortest key first.
+   */
+  public async complete<T = JValue>(partial: string, limit = 10) {
+    return this.read(async tx => {
+      const items = [] as [string, T][];
+      const start = await this.entryOf(tx, partial);
+      if (!start) return items;
+      // Entries are expanded shortest key first; the keys within a branch
+      // are no shorter than its prefix, and sort after it
+      const frontier = [start];
+      const order = ([a]: [string, unknown], [b]: [string, unknown]) =>
+        a.length - b.length || +(a > b) - +(a < b);
+      while (frontier.length && items.length < limit) {
+        const [k, v] = frontier.shift()!;
+        if (!Array.isArray(v)) {
+          const node = await tx.get<RNode>(v) ?? [];
+          for (const [n, c] of node) frontier.push([k + n, c]);
+          frontier.sort(order);
+        } else if (this.live(v)) {
+          items.push([k, this.decode(await this.load(tx, v)) as T]);
+        }
+      }
+      return items;
+    });
+  }
+
+  /**
+   * Finds the keys within an edit distance of a term, in the order of the
+   * keys. The distance is computed a character of the node labels at a time,
+   * and the branches whose keys all exceed the distance are skipped. With a
+   * prefix, only the keys starting with it are searched, and the term is
+   * compared to the rest of the keys.
+   *
+   * @param term The term to search for.
+   * @param options The largest distance, and how the term is matched.
+   * @returns An asynchronous generator that yields the key, value and distance of the keys found.
+   */
+  public async *fuzzy<T = JValue>(
+    term: string,
+    options: FuzzyOptions = {},
+  ): AsyncGenerator<[string, T, number], void, unknown> {
+    const {
+      maxDistance = 1,
+      limit = Infinity,
+      prefix = '',
+      partial,
+      transpositions,
+    } = options;
+    const found = [] as [string, T, number][];
+    // Along with the last two rows of the distances, visits keep the distance
+    // of the closest start of the key in partial mode
+    const visit = async (
+      tx: Txn,
+      label: string,
+      v: string | RStored,
+      key: string,
+      rows: [number[] | undefined, number[]],
+      best: number,
+    ): Promise<void> => {
+      let [prev2, prev] = rows;
+      let distance = best;
+      let k = key;
+      for (const c of label.split('')) {
+        const cPrev = transpositions ? k[k.length - 1] : undefined;
+        [prev2, prev] = [prev, editRow(term, [prev2, prev], c, cPrev)];
+        k += c;
+        distance = Math.min(distance, prev[term.length]);
+        // The smallest distance of a row never decreases down the key
+        const viable = Math.min(...prev) <= maxDistance;
+        if (!viable && !(partial && distance <= maxDistance)) return;
+      }
+      if (!partial) distance = prev[term.length];
+      if (!Array.isArray(v)) {
+        const node = await tx.get<RNode>(v) ?? [];
+        for (const [n, c] of node) {
+          if (found.length >= limit) return;
+          await visit(tx, n, c, k, [prev2, prev], distance);
+        }
+      } else if (distance <= maxDistance && this.live(v)) {
+        const value = this.decode(await this.load(tx, v)) as T;
+        found.push([k, value, distance]);
+      }
+    };
+    const first = Array.from({ length: term.length + 1 }, (_, i) => i);
+    await this.read(async tx => {
+      // The part of the label of the entry beyond the prefix is compared
+      const start = await this.entryOf(tx, prefix);
+      if (!start) return;
+      const [key, v] = start;
+      const label = key.slice(prefix.length);
+      await visit(tx, label, v, prefix, [undefined, first], first[term.length]);
+    });
+    yield* found;
+  }
+
+  /**
+   * Creates a view of the Radix store limited to the keys starting with a
+   * given prefix. The view reads and writes keys without the prefix.
+   *
+   * @param prefix The prefix of the keys within the view.
+   * @returns A view over the keys starting with the prefix.
+   */
+  public sub(prefix: string) {
+    return new RadixSub(this, prefix);
   }
 
-  private async *_loop<T extends JValue>(
-    query: {
+  /**
+   * A view of the Radix store taking tuple keys, such as
+   * `['tenant', 42, new Date()]`, in place of string keys.
+   */
+  public get tuple() {
+    return new RadixTuple(this);
+  }
+
+  private async *_loop<T = JValue>(
+    tx: Txn,
+    query: CompiledQuery & {
       count: number;
       sort: 0 | 1;
-      filter: QueryFilter;
+      // Yields the leaves, holding the encoded values, instead of the values
+      raw?: boolean;
     },
     key = '',
-    root = NODE_ROOT,
+    root = this.m_root,
   ): AsyncGenerator<[string, T], void, unknown> {
     if (!query.count) return;
-    const node = await this.store.get<RNode>(root) ?? [];
+    const node = await tx.get<RNode>(root) ?? [];
     for (const i in node) {
       const [k, v] =
         node[query.sort * +i + (1 - query.sort) * (node.length - (+i + 1))];
       const keyAcc = key + k;
       if (Array.isArray(v)) {
-        if (!query.filter(keyAcc, false)) {
+        if (!this.live(v) || !query.filter(keyAcc, false)) {
+          continue;
+        }
+        const leaf = await this.load(tx, v);
+        const value = this.decode(leaf);
+        if (query.where && !query.where(value, keyAcc)) {
           continue;
         }
-        yield [keyAcc, JSON.parse(v[0]) as T];
+        yield [
+          keyAcc,
+          (query.raw
+            ? leaf
+            : query.select
+              ? select(value, query.select)
+              : value) as T,
+        ];
         if (!--query.count) return;
         continue;
       }
       if (!query.filter(keyAcc, true)) {
         continue;
       }
-      for await (const result of this._loop<T>(query, keyAcc, v)) {
+      for await (const result of this._loop<T>(tx, query, keyAcc, v)) {
         yield result;
       }
+      if (!query.count) return;
     }
   }
 
+  /**
+   * Retrieves one page of the keys and values matching a query. The page
+   * holds up to `query.count` entries; pass the returned `next` token back to
+   * get the following page. Pages resume right after the last key returned,
+   * so keys set or deleted in between are accounted for.
+   *
+   * @param query An optional query object to filter and control the page.
+   * @param cursor The `next` token of the previous page, if any.
+   * @returns A Promise that resolves to the entries of the page and the token of the next page, if there may be one.
+   */
+  public async page<T = JValue>(
+    query: Query = {},
+    cursor?: string,
+  ): Promise<{ items: [string, T][]; next?: string }> {
+    const { count = Infinity } = query;
+    if (count <= 0) return { items: [] };
+    const after = cursor === undefined ? query.after : decodeCursor(cursor);
+    const items = await this.read(async tx => {
+      if (this.m_compare) {
+        // One extra entry tells whether there is a next page
+        const paged = { ...query, after, count: count + 1 };
+        return this.readKeys<T>(tx, await this.sortedKeys(tx, paged), query);
+      }
+      const items = [] as [string, T][];
+      for await (const result of this._loop<T>(tx, {
+        ...this.compile({ ...query, after }),
+        // One extra entry tells whether there is a next page
+        count: count + 1,
+        sort: query.sort === -1 ? 0 : 1,
+      })) {
+        items.push(result);
+      }
+      return items;
+    });
+    if (items.length <= count) return { items };
+    items.pop();
+    return { items, next: encodeCursor(items[items.length - 1][0]) };
+  }
+
   /**
    * Performs a loop operation to iterate over keys and values in the Radix store based on a query.
+   * Entries are read a chunk at a time, and the lock is only held while a
+   * chunk is read: the loop body may write to the tree, and the keys set or
+   * deleted meanwhile are accounted for from the next chunk on.
    *
    * @param query An optional query object to filter and control the loop operation.
    * @returns An asynchronous generator that yields key-value pairs that match the query criteria.
    */
-  public async *loop<T extends JValue>(
-    query?: Query,
+  public async *loop<T = JValue>(
+    query: Query = {},
   ): AsyncGenerator<[string, T], void, unknown> {
-    const release = await mutex.obtainRO();
-    try {
-      for await (const result of this._loop<T>({
-        count: query?.count ?? -1,
-        sort: query?.sort === -1 ? 0 : 1,
-        filter: buildQueryFilter(query),
-      })) {
-        yield result;
+    if (this.m_compare) {
+      // The keys are sorted once; the keys set during the loop are not seen
+      const keys = await this.read(tx => this.sortedKeys(tx, query));
+      for (let i = 0; i < keys.length; i += LOOP_CHUNK) {
+        const chunk = keys.slice(i, i + LOOP_CHUNK);
+        yield* await this.read(tx => this.readKeys<T>(tx, chunk, query));
       }
-    } finally {
-      release();
+      return;
     }
+    yield* this.chunks<T>(query);
   }
-}
 
-type QueryFilter = (
-  path: string,
-  isBranch: boolean,
-) => Promise<boolean> | boolean;
-
-function escape(value: string, sliceConfig?: boolean) {
-  const filter = `'${value.replaceAll(/'/g, "\\'")}'`;
-  // Also trims the value for comparison against branch
-  return sliceConfig === undefined
-    ? `(t?${filter}.slice(0,v.length):${filter})`
-    : sliceConfig
-    ? `${filter}.slice(0,v.length)`
-    : filter;
-}
+  // Reads the entries matching a query in the order of the code units of
+  // their keys, a chunk at a time, holding the lock only while a chunk is read
+  private async *chunks<T>(
+    query: Query,
+    raw = false,
+  ): AsyncGenerator<[string, T], void, unknown> {
+    let count = query.count ?? -1;
+    let after = query.after;
+    while (count) {
+      const size = count < 0 ? LOOP_CHUNK : Math.min(count, LOOP_CHUNK);
+      const chunk = await this.read(async tx => {
+        const items = [] as [string, T][];
+        for await (const result of this._loop<T>(tx, {
+          ...this.compile({ ...query, after }),
+          count: size,
+          sort: query.sort === -1 ? 0 : 1,
+          raw,
+        })) {
+          items.push(result);
+        }
+        return items;
+      });
+      for (const result of chunk) yield result;
+      if (chunk.length < size) return;
+      if (count > 0) count -= size;
+      after = chunk[chunk.length - 1][0];
+    }
+  }
 
-function noFilter() {
-  return true;
-}
+  /**
+   * Exports the keys and values matching a query, sorted by key, as
+   * newline-delimited JSON: each line holds a `[key, data]` pair, where the
+   * data is the value as encoded by the codec of the tree, followed by the
+   * expiry time of the key, in milliseconds since the epoch, if it has one.
+   *
+   * @param query An optional query object to filter the keys exported.
+   * @returns An asynchronous generator that yields the lines.
+   */
+  public async *export(
+    query: Query = {},
+  ): AsyncGenerator<string, void, unknown> {
+    for await (const [key, leaf] of this.chunks<RLeaf>(
+      { ...query, select: undefined },
+      true,
+    )) {
+      yield `${JSON.stringify([key, ...leaf])}\n`;
+    }
+  }
 
-function buildQueryFilter(query?: Query) {
-  if (!query) return noFilter;
-  let rules = '';
-  if (query.gt !== undefined)
-    rules += `&&(t?v>=${escape(query.gt, true)}:v>${escape(query.gt, false)})`;
-  if (query.gte !== undefined) rules += `&&v>=${escape(query.gte)}`;
-  if (query.lt !== undefined)
-    rules += `&&(t?v<=${escape(query.lt, true)}:v<${escape(query.lt, false)})`;
-  if (query.lte !== undefined) rules += `&&v<=${escape(query.lte)}`;
-  if (query.prefixSome !== undefined) {
-    const a = query.prefixSome.map(e => escape(e)).join(',');
-    rules += `&&[${a}].some(e=>v.slice(0,e.length)===e)`;
-  }
-  if (query.prefix !== undefined) {
-    rules += `&&v.slice(0,${query.prefix.length})===${escape(query.prefix)}`;
-  }
-  if (query.prefixNot !== undefined) {
-    rules += `&&v.slice(0, ${query.prefixNot.length})!==${escape(
-      query.prefixNot,
-      false,
-    )}`;
-  }
-  // console.log(query, rules ? rules.slice(2) : true);
-  return Function('v', 't', `return ${rules ? rules.slice(2) : true}`) as (
-    path: string,
-    isBranch: boolean,
-  ) => Awaitable<boolean>;
+  // Builds the nodes of an empty tree bottom-up from keys in ascending order,
+  // writing each node once. The nodes along the path of the last key are kept
+  // open in a stack; those deeper than the prefix the next key shares with it
+  // are complete. Stops at the first key out of order, and returns it.
+  private async bulkLoad(
+    tx: Txn,
+    entries: AsyncIterator<[string, ...RLeaf]>,
+    loaded: () => void,
+  ) {
+    const stack: RFrame[] = [{ depth: 0, label: '', node: [], count: 0 }];
+    // Keys with an expiry, added to the expiry tree along with the root
+    const expiring = [] as [string, number][];
+    let next = await tx.get<number>(this.m_prefix + NODE_ID) ?? 0;
+    const add = async (value: RNode | string) => {
+      const id = this.m_prefix + (next++).toString(36);
+      await tx.set(id, value);
+      // The root is written last, so the tree stays empty until it is done
+      if (next % IMPORT_CHUNK === 0) await tx.commit();
+      return id;
+    };
+    const close = async () => {
+      const frame = stack.pop()!;
+      const parent = stack[stack.length - 1];
+      const id = await add(frame.node);
+      parent.node.push(
+        this.m_counts ? [frame.label, id, frame.count] : [frame.label, id],
+      );
+      parent.count += frame.count;
+    };
+    let prev: string | undefined;
+    let result = await entries.next();
+    for (; !result.done; result = await entries.next()) {
+      const [key, data, ...rest] = result.value;
+      if (prev !== undefined && key <= prev) break;
+      let shared = 0;
+      while (prev !== undefined && shared < prev.length) {
+        if (prev[shared] !== key[shared]) break;
+        ++shared;
+      }
+      if (
+        prev !== undefined &&
+        shared < prev.length &&
+        splitsPair(key, shared)
+      ) {
+        --shared;
+      }
+      while (stack[stack.length - 1].depth > shared) await close();
+      const top = stack[stack.length - 1];
+      if (prev !== undefined && shared > top.depth) {
+        // The last entry and the key part ways within its label
+        const entry = top.node.pop()!;
+        const [label, v, c] = entry;
+        const count = Array.isArray(v) ? 1 : c ?? 0;
+        entry[0] = label.slice(shared - top.depth);
+        top.count -= count;
+        stack.push({
+          depth: shared,
+          label: label.slice(0, shared - top.depth),
+          node: [entry],
+          count,
+        });
+      }
+      const frame = stack[stack.length - 1];
+      const limit = this.m_inlineLimit ?? Infinity;
+      const leaf: RStored = [
+        data.length > limit ? [await add(data)] : data,
+        ...rest,
+      ];
+      frame.node.push([key.slice(frame.depth), leaf]);
+      if (rest[0] !== undefined) expiring.push([key, rest[0]]);
+      ++frame.count;
+      loaded();
+      prev = key;
+    }
+    while (stack.length > 1) await close();
+    if (stack[0].node.length) {
+      await tx.set(this.m_root, stack[0].node);
+      await tx.set(this.m_prefix + NODE_ID, next);
+    }
+    for (const [key, expiresAt] of expiring) {
+      await this.expiry._set(
+        tx,
+        expiryKey(expiresAt, key),
+        this.expiry.encode(key),
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Imports the lines written by `export`. Into an empty tree, keys sorted in
+   * ascending order are loaded in bulk, building each node once; the keys
+   * following one out of order, and the keys imported into a tree that is not
+   * empty, are set one by one instead. Keys loaded in bulk are not reported
+   * to watchers, and the secondary indexes are rebuilt after them.
+   *
+   * @param source The text to import, in chunks.
+   * @param options Optional settings of the import.
+   * @returns A Promise that resolves to the number of keys imported.
+   */
+  public async import(source: ImportSource, options: ImportOptions = {}) {
+    const entries = readEntries(source);
+    let count = 0;
+    const loaded = () => {
+      if (++count % IMPORT_CHUNK === 0) options.onProgress?.(count);
+    };
+    let result = await this.write(async tx => {
+      const root = await tx.get<RNode>(this.m_root);
+      if (root?.length) return entries.next();
+      return this.bulkLoad(tx, entries, loaded);
+    });
+    if (count) {
+      for (const name of this.m_indexes.keys()) await this.rebuildIndex(name);
+    }
+    while (!result.done) {
+      const first = result;
+      result = await this.write(async tx => {
+        let next: IteratorResult<[string, ...RLeaf], void> = first;
+        for (let i = 0; i < IMPORT_CHUNK && !next.done; ++i) {
+          const [key, ...leaf] = next.value;
+          await this.put(tx, key, leaf);
+          loaded();
+          next = await entries.next();
+        }
+        return next;
+      });
+    }
+    options.onProgress?.(count);
+    return count;
+  }
+
+  /**
+   * Defines a secondary index kept up to date by every write to the tree.
+   * The index is stored as a tree of its own within the same store and is
+   * updated within the same transactions as the keys it indexes. Run
+   * `rebuildIndex` to add the keys written before the index was defined.
+   *
+   * @param name The name of the index.
+   * @param keys A function deriving the index keys of an entry from its value and key.
+   */
+  public defineIndex<T = JValue>(name: string, keys: IndexKeys<T>) {
+    this.m_indexes.set(name, {
+      tree: this.internal(['index', name], { counts: this.m_counts }),
+      keys: keys as IndexKeys,
+    });
+  }
+
+  /**
+   * Clears a secondary index and fills it again from every key of the tree.
+   *
+   * @param name The name of the index.
+   * @returns A Promise that resolves to the number of index entries written.
+   */
+  public async rebuildIndex(name: string) {
+    const index = this.index(name);
+    return this.write(async tx => {
+      const all = compileQuery();
+      await index.tree._delRange(tx, all);
+      let count = 0;
+      for await (const [key, value] of this._loop(tx, {
+        ...all,
+        count: -1,
+        sort: 1,
+      })) {
+        for (const k of this.indexKeys(index, key, value)) {
+          await index.tree._set(
+            tx,
+            k + INDEX_SEP + key,
+            index.tree.encode(key),
+          );
+          ++count;
+        }
+      }
+      return count;
+    });
+  }
+
+  /**
+   * Iterates over the entries of the tree in the order of their keys in a
+   * secondary index. The key filters of the query apply to the index keys,
+   * while `where` and `select` apply to the values. Entries with the same
+   * index key are sorted by primary key. Like `loop`, entries are read a
+   * chunk at a time without holding the lock in between.
+   *
+   * @param name The name of the index.
+   * @param query An optional query object to filter and control the loop operation.
+   * @returns An asynchronous generator that yields the primary key, value and index key of the matching entries.
+   */
+  public async *loopIndex<T = JValue>(
+    name: string,
+    query: Query = {},
+  ): AsyncGenerator<[string, T, string], void, unknown> {
+    const index = this.index(name);
+    const { filter, where, select: paths } = compileQuery(query);
+    let count = query.count ?? -1;
+    // Index entries are read in chunks as well, resuming after the last one
+    let after: string | undefined;
+    while (count) {
+      const [chunk, last] = await this.read(async tx => {
+        const items = [] as [string, T, string][];
+        let last: string | undefined;
+        let read = 0;
+        for await (const [entry, key] of index.tree._loop<string>(tx, {
+          ...compileQuery({ ...indexBounds(query), after, sort: query.sort }),
+          count: LOOP_CHUNK,
+          sort: query.sort === -1 ? 0 : 1,
+        })) {
+          last = entry;
+          ++read;
+          const indexKey = entry.slice(0, entry.length - key.length - 1);
+          if (!filter(indexKey, false)) continue;
+          const val = await this._get(tx, key);
+          if (!val) continue;
+          const value = this.decode(val);
+          if (where && !where(value, key)) continue;
+          items.push([
+            key,
+            (paths ? select(value, paths) : value) as T,
+            indexKey,
+          ]);
+        }
+        return [items, read < LOOP_CHUNK ? undefined : last] as const;
+      });
+      for (const result of chunk) {
+        yield result;
+        if (!--count) return;
+      }
+      if (last === undefined) return;
+      after = last;
+    }
+  }
+
+  /**
+   * Subscribes to the changes committed by `set`, `del`, `batch`,
+   * `transaction`, `delPrefix` and `delRange` through this instance and its
+   * views. The key filters of the query apply to the keys changed, and its
+   * `where` to the values before or after the change; `select` projects both.
+   * Events are delivered in commit order, after the changes are written.
+   * Errors thrown by the listener are ignored.
+   *
+   * Without a listener, returns an asynchronous generator yielding the events
+   * instead; it subscribes when the iteration starts, and stopping the
+   * iteration unsubscribes.
+   *
+   * @param query The query object to filter the changes.
+   * @param listener The callback called with each change event.
+   * @returns A function that unsubscribes the listener.
+   */
+  public watch<T = JValue>(
+    query: Query,
+    listener: ChangeListener<T>,
+  ): () => void;
+  public watch<T = JValue>(
+    query?: Query,
+  ): AsyncGenerator<ChangeEvent<T>, void, unknown>;
+  public watch<T = JValue>(query: Query = {}, listener?: ChangeListener<T>) {
+    if (!listener) {
+      const queue = new AsyncQueue<ChangeEvent<T>>();
+      return queue.drain(() =>
+        this.watch<T>(query, event => queue.push(event)),
+      );
+    }
+    const { filter, where, select: paths } = this.compile(query);
+    const watcher: RWatcher = (key, val, prev) => {
+      if (!filter(key, false)) return;
+      const value = val && this.decode(val);
+      const oldValue = prev && this.decode(prev);
+      const matches = (v?: JValue) =>
+        v !== undefined && (!where || where(v, key));
+      if (!matches(value) && !matches(oldValue)) return;
+      const project = (v?: JValue) =>
+        (paths && v !== undefined ? select(v, paths) : v) as T | undefined;
+      try {
+        listener({
+          type: val ? 'set' : 'del',
+          key,
+          value: project(value),
+          oldValue: project(oldValue),
+        });
+      } catch {
+        // The change is committed regardless of the listener
+      }
+    };
+    this.m_watchers.add(watcher);
+    return () => {
+      this.m_watchers.delete(watcher);
+    };
+  }
 }
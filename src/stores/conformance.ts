@@ -0,0 +1,100 @@
+import { Radix } from '..';
+import type { IStore, JValue } from '../types/store';
+
+/**
+ * The parts of a test framework the conformance suite uses, as provided by
+ * Vitest, Jest or Mocha with an `expect` library.
+ */
+export interface TestFramework {
+  describe: (name: string, fn: () => void) => void;
+  it: (name: string, fn: () => Promise<void>) => void;
+  expect: (actual: unknown) => {
+    toBe: (expected: unknown) => void;
+    toEqual: (expected: unknown) => void;
+  };
+}
+
+/**
+ * Checks that a store behaves as `Radix` expects. Third-party stores can run
+ * the same suite within their own tests.
+ *
+ * @param name The name of the store, used as the name of the suite.
+ * @param create A function creating an empty store for each test.
+ * @param framework The test framework functions to declare the tests with.
+ */
+export function testStore(
+  name: string,
+  create: () => IStore | Promise<IStore>,
+  { describe, it, expect }: TestFramework,
+) {
+  const values: [string, JValue][] = [
+    [
+      '_',
+      [
+        ['a', ['"x"']],
+        ['b', '1', 2],
+      ],
+    ],
+    ['#', 42],
+    ['!', []],
+    ['', 'empty key'],
+    ['users:_', { nested: { list: [1, 'two', null, true, 1.5] } }],
+    ['a/b c', 'spaces and slashes'],
+    ['A', 'upper case'],
+    ['a', 'lower case'],
+    ['ключ🔑', 'unicode'],
+  ];
+
+  describe(name, () => {
+    it('reads missing keys as undefined', async () => {
+      const store = await create();
+      expect(await store.get('missing')).toBe(undefined);
+    });
+
+    it('writes, overwrites and deletes keys', async () => {
+      const store = await create();
+      for (const [key, value] of values) await store.set(key, value);
+      for (const [key, value] of values) {
+        expect(await store.get(key)).toEqual(value);
+      }
+      await store.set('a', 'again');
+      expect(await store.get('a')).toBe('again');
+      expect(await store.get('A')).toBe('upper case');
+      for (const [key] of values) await store.del(key);
+      for (const [key] of values) expect(await store.get(key)).toBe(undefined);
+      await store.del('missing');
+    });
+
+    it('keeps values apart from the objects set', async () => {
+      const store = await create();
+      const value = { list: [1] };
+      await store.set('k', value);
+      value.list.push(2);
+      expect(await store.get('k')).toEqual({ list: [1] });
+    });
+
+    it('applies batches in order', async () => {
+      const store = await create();
+      if (!store.batch) return;
+      await store.set('b', 1);
+      await store.batch([
+        { type: 'set', key: 'a', value: 1 },
+        { type: 'set', key: 'a', value: 2 },
+        { type: 'del', key: 'b' },
+        { type: 'set', key: 'c', value: [3] },
+      ]);
+      expect(await store.get('a')).toBe(2);
+      expect(await store.get('b')).toBe(undefined);
+      expect(await store.get('c')).toEqual([3]);
+    });
+
+    it('holds a tree', async () => {
+      const radix = new Radix(await create());
+      for (let i = 0; i < 100; ++i) await radix.set(`k/${i % 7}/${i}`, i);
+      await radix.delPrefix('k/3/');
+      const report = await radix.verify();
+      expect(report.issues).toEqual([]);
+      expect(report.keys).toBe(86);
+    });
+  });
+}
@@ -0,0 +1,147 @@
+import type { IStore, JValue, StoreOp } from '../types/store';
+
+type FileSystem = typeof import('node:fs/promises');
+
+// Each batch has its own journal, so that batches of different trees can be
+// written at the same time
+const JOURNAL = /^journal(\.[a-z0-9]+)?\.ops$/u;
+
+function randomId() {
+  return Math.random().toString(36).slice(2);
+}
+
+// Keys are turned into portable file names: characters other than lowercase
+// letters, digits, `_` and `-` are escaped as their UTF-8 bytes
+function fileName(key: string) {
+  const escaped = key.replace(/[^a-z0-9_-]/gu, c =>
+    [...new TextEncoder().encode(c)]
+      .map(b => `%${b.toString(16).padStart(2, '0')}`)
+      .join(''),
+  );
+  return `${escaped}.json`;
+}
+
+function isMissing(e: unknown) {
+  return (e as { code?: string } | undefined)?.code === 'ENOENT';
+}
+
+/**
+ * Keeps the store in a directory of the file system, one JSON file per key.
+ * Files are replaced by an atomic rename, so a crash never leaves a key half
+ * written. Batches are written to a journal first, and a journal left by a
+ * crash is applied when the store is next used; a batch failing part way is
+ * undone instead. Works in Node.js and other
+ * runtimes providing `node:fs/promises`, which is only loaded on first use.
+ */
+export class StoreInFiles implements IStore {
+  private m_fs?: Promise<FileSystem>;
+
+  /**
+   * Creates a new store over a directory. The directory is created if needed.
+   *
+   * @param dir The path of the directory to keep the files in.
+   */
+  public constructor(public dir: string) {}
+
+  private fs() {
+    this.m_fs ??= import('node:fs/promises').then(async fs => {
+      await fs.mkdir(this.dir, { recursive: true });
+      await this.recover(fs);
+      return fs;
+    });
+    return this.m_fs;
+  }
+
+  private path(name: string) {
+    return `${this.dir}/${name}`;
+  }
+
+  private async write(fs: FileSystem, name: string, data: string) {
+    const temp = this.path(`${name}.${randomId()}.tmp`);
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, this.path(name));
+  }
+
+  private async apply(fs: FileSystem, ops: StoreOp[]) {
+    for (const op of ops) {
+      const name = fileName(op.key);
+      if (op.type === 'set')
+        await this.write(fs, name, JSON.stringify(op.value));
+      else await fs.rm(this.path(name), { force: true });
+    }
+  }
+
+  // Applies every journal left by a crash, oldest first
+  private async recover(fs: FileSystem) {
+    const journals = await Promise.all(
+      (await fs.readdir(this.dir))
+        .filter(name => JOURNAL.test(name))
+        .map(async name => ({
+          name,
+          time: (await fs.stat(this.path(name))).mtimeMs,
+        })),
+    );
+    journals.sort((a, b) => a.time - b.time || (a.name < b.name ? -1 : 1));
+    for (const { name } of journals) {
+      const data = await fs.readFile(this.path(name), 'utf8');
+      await this.apply(fs, JSON.parse(data));
+      await fs.rm(this.path(name), { force: true });
+    }
+  }
+
+  private async read<T extends JValue>(fs: FileSystem, key: string) {
+    try {
+      return JSON.parse(
+        await fs.readFile(this.path(fileName(key)), 'utf8'),
+      ) as T;
+    } catch (e) {
+      if (isMissing(e)) return undefined;
+      throw e;
+    }
+  }
+
+  public async get<T extends JValue>(key: string) {
+    return this.read<T>(await this.fs(), key);
+  }
+
+  public async set<T extends JValue>(key: string, value: T) {
+    const fs = await this.fs();
+    await this.write(fs, fileName(key), JSON.stringify(value));
+  }
+
+  public async del(key: string) {
+    const fs = await this.fs();
+    await fs.rm(this.path(fileName(key)), { force: true });
+  }
+
+  public async batch(ops: StoreOp[]) {
+    const fs = await this.fs();
+    const undo = [] as StoreOp[];
+    for (const key of new Set(ops.map(op => op.key))) {
+      const value = await this.read(fs, key);
+      undo.push(
+        value === undefined
+          ? { type: 'del', key }
+          : { type: 'set', key, value },
+      );
+    }
+    // Once the journal is written, the batch is applied, now or on recovery
+    const journal = `journal.${randomId()}.ops`;
+    await this.write(fs, journal, JSON.stringify(ops));
+    try {
+      await this.apply(fs, ops);
+    } catch (e) {
+      // The batch having failed, the journal is replaced by the previous
+      // values, which are put back now or on recovery
+      try {
+        await this.write(fs, journal, JSON.stringify(undo));
+        await this.apply(fs, undo);
+        await fs.rm(this.path(journal), { force: true });
+      } catch {
+        this.m_fs = undefined;
+      }
+      throw e;
+    }
+    await fs.rm(this.path(journal), { force: true });
+  }
+}
@@ -0,0 +1,53 @@
+import type { IStore, JValue, StoreOp } from '../types/store';
+
+export type StoreSnapshot = [string, JValue][];
+
+/**
+ * Keeps the store in memory. Values are cloned on the way in, so that later
+ * changes to the objects set do not reach the store.
+ */
+export class StoreInMemory implements IStore {
+  private m_data = new Map<string, JValue>();
+
+  public async get<T extends JValue>(key: string) {
+    return this.m_data.get(key) as T | undefined;
+  }
+
+  public async set<T extends JValue>(key: string, value: T) {
+    this.m_data.set(key, structuredClone(value));
+  }
+
+  public async del(key: string) {
+    this.m_data.delete(key);
+  }
+
+  public async batch(ops: StoreOp[]) {
+    // Values are cloned first, so that no write lands if any of them fails
+    const values = ops.map(
+      op => op.type === 'set' && structuredClone(op.value),
+    );
+    for (const [i, op] of ops.entries()) {
+      if (op.type === 'set') this.m_data.set(op.key, values[i] as JValue);
+      else this.m_data.delete(op.key);
+    }
+  }
+
+  /**
+   * Copies the content of the store. Snapshots are plain JSON, so they can be
+   * kept elsewhere as well.
+   *
+   * @returns The keys and values of the store.
+   */
+  public snapshot(): StoreSnapshot {
+    return structuredClone([...this.m_data]);
+  }
+
+  /**
+   * Replaces the content of the store with a snapshot.
+   *
+   * @param snapshot The keys and values to restore.
+   */
+  public restore(snapshot: StoreSnapshot) {
+    this.m_data = new Map(structuredClone(snapshot));
+  }
+}
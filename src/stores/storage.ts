@@ -0,0 +1,55 @@
+import type { IStore, JValue, StoreOp } from '../types/store';
+
+/**
+ * Keeps the store in a Web Storage, such as `localStorage`, or anything with
+ * the same interface. Values are stored as JSON under prefixed keys, so that
+ * several stores can share one storage.
+ */
+export class StoreInStorage implements IStore {
+  /**
+   * Creates a new store over a storage.
+   *
+   * @param storage The storage to keep the keys in.
+   * @param prefix The prefix of the storage keys.
+   */
+  public constructor(
+    public storage: Storage,
+    public prefix = '',
+  ) {}
+
+  public async get<T extends JValue>(key: string) {
+    const data = this.storage.getItem(this.prefix + key);
+    return data === null ? undefined : (JSON.parse(data) as T);
+  }
+
+  public async set<T extends JValue>(key: string, value: T) {
+    this.storage.setItem(this.prefix + key, JSON.stringify(value));
+  }
+
+  public async del(key: string) {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  public async batch(ops: StoreOp[]) {
+    // Storage writes are synchronous: the previous data is put back if one
+    // of them fails, typically on a full storage
+    const journal = [] as [string, string | null][];
+    try {
+      for (const op of ops) {
+        const key = this.prefix + op.key;
+        journal.push([key, this.storage.getItem(key)]);
+        if (op.type === 'set') {
+          this.storage.setItem(key, JSON.stringify(op.value));
+        } else {
+          this.storage.removeItem(key);
+        }
+      }
+    } catch (e) {
+      for (const [key, data] of journal.reverse()) {
+        if (data === null) this.storage.removeItem(key);
+        else this.storage.setItem(key, data);
+      }
+      throw e;
+    }
+  }
+}
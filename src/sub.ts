@@ -0,0 +1,130 @@
+import type { Radix } from '.';
+import type { SetOptions } from './types/expiry';
+import type { Query } from './types/query';
+import type { JValue } from './types/store';
+import { regExpPrefix } from './utils/query';
+import { buildWhere } from './utils/where';
+
+/**
+ * A view of a Radix store limited to the keys starting with a prefix. Keys
+ * are passed to and yielded from the view without the prefix.
+ */
+export class RadixSub {
+  /**
+   * Creates a new view over a Radix store.
+   *
+   * @param radix The Radix store to view.
+   * @param prefix The prefix of the keys within the view.
+   */
+  public constructor(
+    public radix: Radix,
+    public prefix: string,
+  ) {}
+
+  /**
+   * Checks if a given key exists in the view.
+   *
+   * @param key The key to check, without the prefix.
+   * @returns A Promise that resolves to true if the key exists, and false otherwise.
+   */
+  public has(key: string) {
+    return this.radix.has(this.prefix + key);
+  }
+
+  /**
+   * Retrieves the value associated with a given key in the view.
+   *
+   * @param key The key to retrieve the value for, without the prefix.
+   * @returns A Promise that resolves to the value associated with the key, or undefined if the key is not found.
+   */
+  public get<T = JValue>(key: string) {
+    return this.radix.get<T>(this.prefix + key);
+  }
+
+  /**
+   * Sets a value for a given key in the view.
+   *
+   * @param key The key to set the value for, without the prefix.
+   * @param value The value to associate with the key.
+   * @param options Optional expiry of the key.
+   * @returns A Promise that resolves when the value is successfully set.
+   */
+  public set<T = JValue>(key: string, value: T, options?: SetOptions) {
+    return this.radix.set(this.prefix + key, value, options);
+  }
+
+  /**
+   * Deletes a key and its associated value from the view.
+   *
+   * @param key The key to delete, without the prefix.
+   * @returns A Promise that resolves to true if the key was deleted, and false if the key was not found.
+   */
+  public del(key: string) {
+    return this.radix.del(this.prefix + key);
+  }
+
+  /**
+   * Creates a nested view limited to the keys starting with a given prefix.
+   *
+   * @param prefix The prefix of the keys within the nested view.
+   * @returns A view over the keys starting with both prefixes.
+   */
+  public sub(prefix: string) {
+    return new RadixSub(this.radix, this.prefix + prefix);
+  }
+
+  /**
+   * Iterates over keys and values of the view based on a query. Keys in the
+   * query and in the results are given without the prefix.
+   *
+   * @param query An optional query object to filter and control the loop operation.
+   * @returns An asynchronous generator that yields key-value pairs that match the query criteria.
+   */
+  public async *loop<T = JValue>(
+    query: Query = {},
+  ): AsyncGenerator<[string, T], void, unknown> {
+    const { suffix, contains, match, where, ...rest } = query;
+    const n = this.prefix.length;
+    const p = (key?: string) => key === undefined ? key : this.prefix + key;
+    // Anchored expressions still skip the branches outside of them
+    const start = match ? regExpPrefix(match) : '';
+    const prefix = start.startsWith(query.prefix ?? '') ? start : query.prefix;
+    // The other key filters see the keys without the prefix
+    const values = buildWhere(where);
+    const keyed =
+      suffix !== undefined ||
+      contains !== undefined ||
+      match !== undefined ||
+      values !== undefined;
+    for await (const [key, value] of this.radix.loop<T>({
+      ...rest,
+      prefix: this.prefix + (prefix ?? ''),
+      prefixNot: p(query.prefixNot),
+      prefixSome: query.prefixSome?.map(e => this.prefix + e),
+      gt: p(query.gt),
+      gte: p(query.gte),
+      lt: p(query.lt),
+      lte: p(query.lte),
+      after: p(query.after),
+      before: p(query.before),
+      glob:
+        query.glob === undefined
+          ? undefined
+          : this.prefix.replace(/[\\*?]/gu, '\\$&') + query.glob,
+      where: keyed
+        ? (v, k) => {
+            const key = k.slice(n);
+            if (suffix !== undefined && !key.endsWith(suffix)) return false;
+            if (contains !== undefined && !key.includes(contains)) return false;
+            if (match) {
+              match.lastIndex = 0;
+              if (!match.test(key)) return false;
+            }
+            return !values || values(v, key);
+          }
+        : undefined,
+    })) {
+      yield [key.slice(n), value];
+    }
+  }
+}
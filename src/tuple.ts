@@ -0,0 +1,91 @@
+import type { Radix } from '.';
+import type { SetOptions } from './types/expiry';
+import type { JValue } from './types/store';
+import type { TupleKey, TupleQuery } from './types/tuple';
+import { decodeTuple, encodeTuple } from './utils/tuple';
+
+/**
+ * A view of a Radix store taking tuple keys, encoded into string keys that
+ * sort as the tuples do. The tree should keep the default order of keys.
+ */
+export class RadixTuple {
+  /**
+   * Creates a new tuple view over a Radix store.
+   *
+   * @param radix The Radix store to view.
+   */
+  public constructor(public radix: Radix) {}
+
+  /**
+   * Checks if a given key exists in the store.
+   *
+   * @param key The key to check.
+   * @returns A Promise that resolves to true if the key exists, and false otherwise.
+   */
+  public has(key: TupleKey) {
+    return this.radix.has(encodeTuple(key));
+  }
+
+  /**
+   * Retrieves the value associated with a given key in the store.
+   *
+   * @param key The key to retrieve the value for.
+   * @returns A Promise that resolves to the value associated with the key, or undefined if the key is not found.
+   */
+  public get<T = JValue>(key: TupleKey) {
+    return this.radix.get<T>(encodeTuple(key));
+  }
+
+  /**
+   * Sets a value for a given key in the store.
+   *
+   * @param key The key to set the value for.
+   * @param value The value to associate with the key.
+   * @param options Optional expiry of the key.
+   * @returns A Promise that resolves when the value is successfully set.
+   */
+  public set<T = JValue>(key: TupleKey, value: T, options?: SetOptions) {
+    return this.radix.set(encodeTuple(key), value, options);
+  }
+
+  /**
+   * Deletes a key and its associated value from the store.
+   *
+   * @param key The key to delete.
+   * @returns A Promise that resolves to true if the key was deleted, and false if the key was not found.
+   */
+  public del(key: TupleKey) {
+    return this.radix.del(encodeTuple(key));
+  }
+
+  /**
+   * Iterates over the keys and values of the store in the order of the
+   * tuples. Keys not written as tuples are skipped.
+   *
+   * @param query An optional query object to filter and control the loop operation.
+   * @returns An asynchronous generator that yields the decoded keys and the values that match the query criteria.
+   */
+  public async *loop<T = JValue>(
+    query: TupleQuery = {},
+  ): AsyncGenerator<[TupleKey, T], void, unknown> {
+    const e = (key?: TupleKey) => key && encodeTuple(key);
+    for await (const [key, value] of this.radix.loop<T>({
+      ...query,
+      prefix: e(query.prefix),
+      gt: e(query.gt),
+      gte: e(query.gte),
+      lt: e(query.lt),
+      lte: e(query.lte),
+      after: e(query.after),
+      before: e(query.before),
+    })) {
+      let tuple: TupleKey;
+      try {
+        tuple = decodeTuple(key);
+      } catch {
+        continue;
+      }
+      yield [tuple, value];
+    }
+  }
+}
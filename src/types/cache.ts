@@ -0,0 +1,20 @@
+export interface CacheOptions {
+  /**
+   * Number of store keys kept in memory, least recently used first out.
+   */
+  size: number;
+  /**
+   * Whether committed writes are kept in memory until `flush` is called, or
+   * until they outnumber the cache size, instead of being written right away.
+   */
+  writeBack?: boolean;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Number of store keys in the cache. */
+  size: number;
+  /** Number of writes waiting for a flush. */
+  pending: number;
+}
@@ -0,0 +1,7 @@
+/**
+ * Turns values into the strings kept in the leaves of the tree, and back.
+ */
+export interface ICodec {
+  encode: (value: unknown) => string;
+  decode: (data: string) => unknown;
+}
@@ -0,0 +1,5 @@
+/**
+ * Orders two keys: negative if `a` sorts first, positive if `b` does, zero
+ * if they are equivalent. Equivalent keys are then ordered by code units.
+ */
+export type KeyCompare = (a: string, b: string) => number;
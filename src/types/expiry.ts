@@ -0,0 +1,8 @@
+/**
+ * Options of a write. `ttl` is the time to live of the key in milliseconds,
+ * `expiresAt` the time it expires at; `expiresAt` wins when both are given.
+ */
+export interface SetOptions {
+  ttl?: number;
+  expiresAt?: number | Date;
+}
@@ -0,0 +1,21 @@
+export interface FuzzyOptions {
+  /** Largest edit distance of the keys found. Defaults to 1. */
+  maxDistance?: number;
+  /** Largest number of keys to find. */
+  limit?: number;
+  /**
+   * Only the keys starting with this string are searched; the term is
+   * compared to the rest of the keys.
+   */
+  prefix?: string;
+  /**
+   * Whether the term is matched against the starts of the keys, as typed in
+   * a search box, rather than against the whole keys.
+   */
+  partial?: boolean;
+  /**
+   * Whether swapping two adjacent characters counts as a single edit, as in
+   * the Damerau-Levenshtein distance.
+   */
+  transpositions?: boolean;
+}
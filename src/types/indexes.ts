@@ -0,0 +1,10 @@
+import type { JValue } from './store';
+
+/**
+ * Derives the index keys of an entry from its value and primary key. Entries
+ * without index keys are left out of the index.
+ */
+export type IndexKeys<T = JValue> = (
+  value: T,
+  key: string,
+) => string | string[] | undefined;
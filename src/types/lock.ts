@@ -0,0 +1,17 @@
+export type LockRelease = () => Promise<void> | void;
+
+/**
+ * Provides named readers-writer locks. Locks backed by files or database
+ * advisory locks protect a store shared by several processes.
+ */
+export interface ILockProvider {
+  /**
+   * Obtains a lock shared with other readers, but not with writers.
+   * The name of a lock is the key of the root node of the tree it guards.
+   */
+  read: (name: string) => Promise<LockRelease>;
+  /**
+   * Obtains a lock shared with neither readers nor other writers.
+   */
+  write: (name: string) => Promise<LockRelease>;
+}
@@ -0,0 +1,52 @@
+export interface CompactReport {
+  /** Number of nodes left in the tree, not counting the root. */
+  nodes: number;
+  /** Number of node keys found in the store but unreachable from the root. */
+  orphans: number;
+  /** Number of node ids given back to the id counter. */
+  reclaimed: number;
+}
+
+export type VerifyIssueType =
+  /** A node or one of its entries is not shaped as expected. */
+  | 'malformed'
+  /** Entries of a node are not sorted by label. */
+  | 'unsorted'
+  /** Several entries of a node share the first character of their labels. */
+  | 'duplicate'
+  /** A branch has fewer than two entries and should have been collapsed. */
+  | 'collapsible'
+  /** An entry references a node missing from the store. */
+  | 'dangling'
+  /** A node is referenced by more than one entry. */
+  | 'shared'
+  /** The key count of a branch does not match the keys within it. */
+  | 'miscounted'
+  /** A referenced node id is not below the id counter. */
+  | 'overflow'
+  /** A referenced node id is on the free list. */
+  | 'freed'
+  /** A node key is in the store, but not reachable from the root. */
+  | 'unreachable'
+  /** A stored value cannot be parsed. */
+  | 'unparseable';
+
+export interface VerifyIssue {
+  type: VerifyIssueType;
+  /** Store key of the node the issue was found in. */
+  node: string;
+  /** Key of the affected entry, if any. */
+  key?: string;
+}
+
+export interface VerifyReport {
+  /** Whether the tree is free of issues. */
+  ok: boolean;
+  /** Number of nodes reachable from the root, not counting the root. */
+  nodes: number;
+  /** Number of readable keys. */
+  keys: number;
+  issues: VerifyIssue[];
+  /** Whether the tree was rebuilt to fix the issues. */
+  repaired: boolean;
+}
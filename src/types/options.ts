@@ -0,0 +1,62 @@
+import type { CacheOptions } from './cache';
+import type { ICodec } from './codec';
+import type { KeyCompare } from './compare';
+import type { ILockProvider } from './lock';
+
+export interface RadixOptions {
+  /**
+   * Name of the tree. Trees with different names keep their root, id counter
+   * and nodes apart, so several of them can share one store. Names starting
+   * with `$` are reserved for the trees kept internally, for expiry times and
+   * indexes.
+   */
+  name?: string;
+  /**
+   * Whether new branches keep the number of keys within them, so that
+   * `count`, `rank` and `at` skip whole branches instead of visiting leaves.
+   * Run `compact` to add the counts to the branches of an existing tree.
+   */
+  counts?: boolean;
+  /**
+   * Provider of the locks guarding the tree. Defaults to locks within the
+   * process, shared by the instances using the same store; pass a provider
+   * backed by files or a database when several processes share the store.
+   */
+  lock?: ILockProvider;
+  /**
+   * Codec turning the values into the strings kept in the tree, and back.
+   * Defaults to JSON; `extendedJsonCodec` keeps dates, maps, sets, big
+   * integers, byte arrays and more. Every instance working with the same tree
+   * must use the same codec.
+   */
+  codec?: ICodec;
+  /**
+   * Keeps recently used nodes in memory, so that the upper levels of the tree
+   * are not read from the store over and over. The cache is kept up to date
+   * with the writes of this instance only: other writers of the tree make it
+   * stale. In write-back mode, writes are delayed until `flush`.
+   */
+  cache?: CacheOptions;
+  /**
+   * Enables `snapshot`. While a snapshot is open, writes copy the nodes they
+   * change to new ids instead of changing them in place, and the previous
+   * versions are kept until no open snapshot reads them. Instances of the tree
+   * over the same store share its open snapshots, so their writes keep them
+   * intact as well; writers in other processes are not tracked.
+   */
+  copyOnWrite?: boolean;
+  /**
+   * Length of the encoded values above which a value is stored under a key
+   * of its own rather than within its node, so that writing a node does not
+   * write the large values of its other keys again. Values are kept inline
+   * by default.
+   */
+  inlineLimit?: number;
+  /**
+   * Order of the keys for `loop`, `page`, `at`, `rank` and the range filters
+   * of the queries. Defaults to the order of their code units. Keys are still
+   * stored in that order, so queries in another order read every key matching
+   * their other filters, keeping only the `count` first ones in order.
+   */
+  compare?: KeyCompare;
+}
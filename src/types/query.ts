@@ -1,3 +1,26 @@
+import type { JSimple, JValue } from './store';
+
+export type WhereCondition = {
+  eq?: JValue;
+  ne?: JValue;
+  in?: JValue[];
+  nin?: JValue[];
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+  /** Whether the path has to be present, or absent, in the value. */
+  exists?: boolean;
+};
+
+/**
+ * Conditions on values, keyed by dotted paths into the values; a plain value
+ * stands for equality. A function checks the whole value instead.
+ */
+export type Where =
+  | { [path: string]: WhereCondition | JSimple }
+  | ((value: JValue, key: string) => boolean);
+
 export type Query = {
   prefix?: string;
   prefixNot?: string;
@@ -6,6 +29,28 @@ export type Query = {
   gte?: string;
   lt?: string;
   lte?: string;
+  /** Only keys ending with this string. */
+  suffix?: string;
+  /** Only keys containing this string. */
+  contains?: string;
+  /**
+   * Only keys matching this glob pattern: `*` matches any characters but
+   * `/`, `**` any characters and `?` a single character but `/`.
+   */
+  glob?: string;
+  /**
+   * Only keys matching this expression. Anchored expressions starting with
+   * literal characters skip the branches outside of them.
+   */
+  match?: RegExp;
+  /** Only keys coming after this key in the iteration order. */
+  after?: string;
+  /** Only keys coming before this key in the iteration order. */
+  before?: string;
+  /** Only keys with values matching these conditions. */
+  where?: Where;
+  /** Dotted paths of the values to yield, instead of the whole values. */
+  select?: string[];
   count?: number;
   sort?: -1 | 1;
 };
@@ -0,0 +1,16 @@
+import type { Query } from './query';
+import type { JValue } from './store';
+
+/**
+ * A read-only view of a tree as it was when the snapshot was taken. Reads do
+ * not take the lock of the tree, and do not see later writes.
+ */
+export interface ISnapshot {
+  get: <T = JValue>(key: string) => Promise<T | undefined>;
+  has: (key: string) => Promise<boolean>;
+  loop: <T = JValue>(
+    query?: Query,
+  ) => AsyncGenerator<[string, T], void, unknown>;
+  /** Releases the node versions only the snapshot still reads. */
+  close: () => Promise<void>;
+}
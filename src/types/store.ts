@@ -5,8 +5,17 @@ export interface JObject {
 }
 export type JValue = JArray | JObject | JSimple;
 
+export type StoreOp =
+  { type: 'set'; key: string; value: JValue } | { type: 'del'; key: string };
+
 export interface IStore {
   get: <T extends JValue>(key: string) => Promise<undefined | T>;
   set: <T extends JValue>(key: string, value: T) => Promise<void>;
   del: (key: string) => Promise<void>;
+  /**
+   * Optionally applies several writes atomically: either all of them land or
+   * none does. Stores without it get a journaled fallback that rolls back on
+   * failure.
+   */
+  batch?: (ops: StoreOp[]) => Promise<void>;
 }
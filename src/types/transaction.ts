@@ -0,0 +1,17 @@
+import type { SetOptions } from './expiry';
+import type { JValue } from './store';
+
+export type BatchOp =
+  | ({ type: 'set'; key: string; value: unknown } & SetOptions)
+  | { type: 'del'; key: string };
+
+export interface ITransaction {
+  get: <T = JValue>(key: string) => Promise<T | undefined>;
+  has: (key: string) => Promise<boolean>;
+  set: <T = JValue>(
+    key: string,
+    value: T,
+    options?: SetOptions,
+  ) => Promise<void>;
+  del: (key: string) => Promise<boolean>;
+}
@@ -0,0 +1,14 @@
+/**
+ * Text to import, in chunks that do not have to end on line boundaries, such
+ * as a file read stream or the output of `export`.
+ */
+export type ImportSource =
+  AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>;
+
+export interface ImportOptions {
+  /**
+   * Called with the number of keys imported so far, every thousand keys and
+   * once the import is done.
+   */
+  onProgress?: (keys: number) => void;
+}
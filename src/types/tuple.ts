@@ -0,0 +1,24 @@
+import type { Query } from './query';
+
+export type TupleElement = string | number | boolean | Date;
+
+/**
+ * A composite key. Tuples sort element by element, a tuple sorting before
+ * the longer tuples it starts. Elements of different types sort as
+ * booleans, then dates, numbers and strings.
+ */
+export type TupleKey = TupleElement[];
+
+/**
+ * A query on tuple keys. `prefix` matches the tuples starting with the given
+ * elements.
+ */
+export type TupleQuery = Pick<Query, 'where' | 'select' | 'count' | 'sort'> & {
+  prefix?: TupleKey;
+  gt?: TupleKey;
+  gte?: TupleKey;
+  lt?: TupleKey;
+  lte?: TupleKey;
+  after?: TupleKey;
+  before?: TupleKey;
+};
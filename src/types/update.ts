@@ -0,0 +1,10 @@
+/**
+ * The outcome of a read-modify-write operation. `oldValue` and `value` are
+ * the values of the key before and after it, undefined for a missing key.
+ */
+export interface UpdateResult<T> {
+  oldValue?: T;
+  value?: T;
+  /** Whether a new value was written. */
+  changed: boolean;
+}
@@ -0,0 +1,15 @@
+import type { JValue } from './store';
+
+/**
+ * A change committed to a key. `value` is the value after the change, and
+ * `oldValue` the value before it; either is undefined when the key did not
+ * exist.
+ */
+export interface ChangeEvent<T = JValue> {
+  type: 'set' | 'del';
+  key: string;
+  value?: T;
+  oldValue?: T;
+}
+
+export type ChangeListener<T = JValue> = (event: ChangeEvent<T>) => void;
@@ -0,0 +1,98 @@
+import type { CacheOptions, CacheStats } from '../types/cache';
+import type { JValue, StoreOp } from '../types/store';
+
+/**
+ * Keeps the most recently used store values in memory, along with the writes
+ * awaiting a flush in write-back mode. Values absent from the store are cached
+ * as well. Cached values are shared: readers must clone them before changes.
+ */
+export class NodeCache {
+  private m_values = new Map<string, JValue | undefined>();
+  private m_pending = new Map<string, JValue | undefined>();
+  private m_hits = 0;
+  private m_misses = 0;
+
+  /**
+   * Creates a new cache.
+   *
+   * @param options The size and write mode of the cache.
+   */
+  public constructor(public options: CacheOptions) {}
+
+  public get writeBack() {
+    return !!this.options.writeBack;
+  }
+
+  /**
+   * Whether the writes pending reached the cache size.
+   */
+  public get full() {
+    return this.m_pending.size >= this.options.size;
+  }
+
+  /**
+   * Looks a key up in the cache.
+   *
+   * @param key The store key to look up.
+   * @returns The cached value wrapped in an object, or undefined on a miss.
+   */
+  public get(key: string) {
+    for (const values of [this.m_pending, this.m_values]) {
+      if (!values.has(key)) continue;
+      const value = values.get(key);
+      if (values === this.m_values) {
+        // Moved to the most recently used end
+        values.delete(key);
+        values.set(key, value);
+      }
+      ++this.m_hits;
+      return { value };
+    }
+    ++this.m_misses;
+    return undefined;
+  }
+
+  /**
+   * Caches the value of a key as found in, or written to, the store.
+   */
+  public set(key: string, value: JValue | undefined) {
+    this.m_values.delete(key);
+    this.m_values.set(key, value);
+    for (const [oldest] of this.m_values) {
+      if (this.m_values.size <= this.options.size) break;
+      this.m_values.delete(oldest);
+    }
+  }
+
+  /**
+   * Keeps committed writes until they are taken for a flush.
+   */
+  public stage(ops: StoreOp[]) {
+    for (const op of ops) {
+      this.m_pending.set(op.key, op.type === 'set' ? op.value : undefined);
+    }
+  }
+
+  /**
+   * Removes the pending writes, so that they can be written to the store.
+   * They stay cached as regular values.
+   */
+  public take() {
+    const ops = [...this.m_pending].map(([key, value]): StoreOp =>
+      value === undefined ? { type: 'del', key } : { type: 'set', key, value },
+    );
+    this.m_pending.clear();
+    for (const op of ops)
+      this.set(op.key, op.type === 'set' ? op.value : undefined);
+    return ops;
+  }
+
+  public stats(): CacheStats {
+    return {
+      hits: this.m_hits,
+      misses: this.m_misses,
+      size: this.m_values.size,
+      pending: this.m_pending.size,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import type { ICodec } from '../types/codec';
+import { jsonEncode } from './json';
+
+/**
+ * Plain JSON, with infinite numbers kept. The default codec. `NaN` and values
+ * without a JSON representation, such as `undefined`, are rejected with a
+ * `TypeError`; as in JSON, object properties holding one of the latter are
+ * dropped, and array items holding one become `null`.
+ */
+export const jsonCodec: ICodec = {
+  encode: jsonEncode,
+  decode: data => JSON.parse(data),
+};
+
+// Values JSON cannot hold are replaced by objects tagged with their type, and
+// so are the plain objects having the tag key, to tell them apart
+const TAG = '$t';
+
+function bytesToBase64(bytes: Uint8Array) {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function tag(value: unknown): unknown {
+  switch (typeof value) {
+    case 'undefined':
+      return { [TAG]: 'undefined' };
+    case 'bigint':
+      return { [TAG]: 'BigInt', v: value.toString() };
+    case 'number':
+      return Number.isFinite(value) && !Object.is(value, -0)
+        ? value
+        : { [TAG]: 'Number', v: Object.is(value, -0) ? '-0' : `${value}` };
+    case 'function':
+    case 'symbol':
+      throw new TypeError(`Cannot encode a value of type ${typeof value}`);
+    case 'object':
+      break;
+    default:
+      return value;
+  }
+  if (value === null) return value;
+  if (Array.isArray(value)) return value.map(tag);
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return {
+      [TAG]: 'Date',
+      v: Number.isNaN(time) ? null : value.toISOString(),
+    };
+  }
+  if (value instanceof Map) {
+    return { [TAG]: 'Map', v: [...value].map(([k, v]) => [tag(k), tag(v)]) };
+  }
+  if (value instanceof Set) return { [TAG]: 'Set', v: [...value].map(tag) };
+  if (value instanceof Uint8Array) {
+    return { [TAG]: 'Uint8Array', v: bytesToBase64(value) };
+  }
+  if (value instanceof RegExp) {
+    return { [TAG]: 'RegExp', v: [value.source, value.flags] };
+  }
+  const object = Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [k, tag(v)]),
+  );
+  return TAG in object ? { [TAG]: 'Object', v: object } : object;
+}
+
+function untag(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(untag);
+  const object = value as Record<string, unknown>;
+  const entries = (o: object) =>
+    Object.entries(o).map(([k, v]) => [k, untag(v)]);
+  if (!(TAG in object)) return Object.fromEntries(entries(object));
+  const v = object.v as never;
+  switch (object[TAG]) {
+    case 'undefined':
+      return undefined;
+    case 'BigInt':
+      return BigInt(v);
+    case 'Number':
+      return Number(v);
+    case 'Date':
+      return new Date(v ?? NaN);
+    case 'Map':
+      return new Map(
+        (v as [unknown, unknown][]).map(([k, e]) => [untag(k), untag(e)]),
+      );
+    case 'Set':
+      return new Set((v as unknown[]).map(untag));
+    case 'Uint8Array':
+      return Uint8Array.from(atob(v), c => c.charCodeAt(0));
+    case 'RegExp':
+      return new RegExp(...(v as [string, string]));
+    case 'Object':
+      return Object.fromEntries(entries(v));
+    default:
+      throw new TypeError(`Unknown type tag: ${object[TAG]}`);
+  }
+}
+
+/**
+ * JSON extended with type tags, so that `undefined`, `NaN`, infinite numbers,
+ * `-0`, `BigInt`, `Date`, `Map`, `Set`, `Uint8Array` and `RegExp` values
+ * survive a round trip, nested within objects and arrays as well.
+ */
+export const extendedJsonCodec: ICodec = {
+  encode: value => JSON.stringify(tag(value)),
+  decode: data => untag(JSON.parse(data)),
+};
@@ -0,0 +1,50 @@
+import type { KeyCompare } from '../types/compare';
+
+/**
+ * Orders keys by their Unicode code points, so that the characters written
+ * as surrogate pairs sort after every other character.
+ */
+export const compareCodePoints: KeyCompare = (a, b) => {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; ++i) {
+    if (a[i] !== b[i]) return a.codePointAt(i)! - b.codePointAt(i)!;
+  }
+  return a.length - b.length;
+};
+
+/**
+ * Orders keys regardless of the case of their letters.
+ */
+export const compareCaseInsensitive: KeyCompare = (a, b) => {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  return +(x > y) - +(x < y);
+};
+
+/**
+ * Orders the runs of digits within keys by their numeric value, so that
+ * `item2` sorts before `item10`.
+ */
+export const compareNatural: KeyCompare = (a, b) => {
+  // Runs of digits are at the odd positions
+  const x = a.split(/(\d+)/);
+  const y = b.split(/(\d+)/);
+  for (let i = 0; i < Math.min(x.length, y.length); ++i) {
+    let [p, q] = [x[i], y[i]];
+    if (i % 2) {
+      p = p.replace(/^0+/, '');
+      q = q.replace(/^0+/, '');
+      if (p.length !== q.length) return p.length - q.length;
+    }
+    if (p !== q) return +(p > q) - +(p < q);
+  }
+  return x.length - y.length;
+};
+
+/**
+ * Breaks the ties of a compare function by comparing the code units of the
+ * keys, so that distinct keys are never equivalent.
+ */
+export function totalOrder(compare: KeyCompare): KeyCompare {
+  return (a, b) => compare(a, b) || +(a > b) - +(a < b);
+}
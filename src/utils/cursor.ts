@@ -0,0 +1,25 @@
+/**
+ * Encodes the last key of a page into an opaque continuation token.
+ */
+export function encodeCursor(key: string) {
+  const bytes = new TextEncoder().encode(JSON.stringify([key]));
+  return btoa(String.fromCharCode(...bytes))
+    .replaceAll('+', '-')
+    .replaceAll('/', '_')
+    .replaceAll('=', '');
+}
+
+/**
+ * Decodes a continuation token back into the last key of a page.
+ */
+export function decodeCursor(cursor: string) {
+  try {
+    const binary = atob(cursor.replaceAll('-', '+').replaceAll('_', '/'));
+    const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+    const [key] = JSON.parse(new TextDecoder().decode(bytes));
+    if (typeof key === 'string') return key;
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor: ${cursor}`);
+}
@@ -0,0 +1,31 @@
+/**
+ * Computes a row of the edit distance matrix of a term against a key, from
+ * the rows of the key without its last character. Entry `j` of a row is the
+ * distance between the first `j` characters of the term and the key.
+ *
+ * @param term The term searched for.
+ * @param rows The rows of the key without its last one and two characters.
+ * @param c The last character of the key.
+ * @param cPrev The character before it, to count transpositions; none by default.
+ * @returns The row of the key.
+ */
+export function editRow(
+  term: string,
+  [prev2, prev]: [number[] | undefined, number[]],
+  c: string,
+  cPrev?: string,
+) {
+  const row = [prev[0] + 1];
+  for (let j = 1; j <= term.length; ++j) {
+    let d = Math.min(
+      prev[j] + 1,
+      row[j - 1] + 1,
+      prev[j - 1] + +(term[j - 1] !== c),
+    );
+    if (prev2 && j > 1 && term[j - 1] === cPrev && term[j - 2] === c) {
+      d = Math.min(d, prev2[j - 2] + 1);
+    }
+    row.push(d);
+  }
+  return row;
+}
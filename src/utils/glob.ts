@@ -0,0 +1,90 @@
+/**
+ * Matches keys against a glob pattern, where `*` stands for any characters
+ * but `/`, `**` for any characters and `?` for a single character but `/`.
+ * A backslash escapes the character following it.
+ */
+export class Glob {
+  private m_tokens: { token: string; literal: boolean }[] = [];
+  private m_tail: number;
+
+  /**
+   * Compiles a glob pattern.
+   *
+   * @param pattern The pattern to compile.
+   */
+  public constructor(public pattern: string) {
+    for (let i = 0; i < pattern.length; ++i) {
+      const c = pattern[i];
+      if (c === '\\' && i + 1 < pattern.length) {
+        this.m_tokens.push({ token: pattern[++i], literal: true });
+      } else if (c === '*' && pattern[i + 1] === '*') {
+        this.m_tokens.push({ token: '**', literal: false });
+        ++i;
+      } else {
+        this.m_tokens.push({ token: c, literal: c !== '*' && c !== '?' });
+      }
+    }
+    // Patterns ending with `**` match every extension of a matching prefix
+    this.m_tail = this.m_tokens.length;
+    while (this.m_tail && this.m_tokens[this.m_tail - 1].token === '**') {
+      --this.m_tail;
+    }
+  }
+
+  private closure(states: Set<number>) {
+    for (const state of states) {
+      const token = this.m_tokens[state];
+      if (token && !token.literal && token.token.startsWith('*')) {
+        states.add(state + 1);
+      }
+    }
+    return states;
+  }
+
+  private states(path: string) {
+    let states = this.closure(new Set([0]));
+    for (const c of path.split('')) {
+      const next = new Set<number>();
+      for (const state of states) {
+        const entry = this.m_tokens[state];
+        if (!entry) continue;
+        const { token, literal } = entry;
+        if (literal) {
+          if (token === c) next.add(state + 1);
+        } else if (token === '**') {
+          next.add(state);
+        } else if (c !== '/') {
+          next.add(token === '*' ? state : state + 1);
+        }
+      }
+      if (!next.size) return next;
+      states = this.closure(next);
+    }
+    return states;
+  }
+
+  /**
+   * Checks whether a key matches the pattern.
+   */
+  public test(key: string) {
+    return this.states(key).has(this.m_tokens.length);
+  }
+
+  /**
+   * Checks whether some key starting with a path may match the pattern.
+   */
+  public viable(path: string) {
+    return this.states(path).size > 0;
+  }
+
+  /**
+   * Checks whether every key starting with a path matches the pattern.
+   */
+  public covers(path: string) {
+    if (this.m_tail === this.m_tokens.length) return false;
+    for (const state of this.states(path)) {
+      if (state >= this.m_tail) return true;
+    }
+    return false;
+  }
+}
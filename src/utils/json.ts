@@ -1,3 +1,5 @@
+import type { JValue } from '../types/store';
+
 export function jsonSerializer(_key: string, value: unknown) {
   if (value === Infinity) {
     return '9e999';
@@ -5,12 +7,46 @@ export function jsonSerializer(_key: string, value: unknown) {
   if (value === -Infinity) {
     return '-9e999';
   }
+  // JSON would write null in its place
+  if (Number.isNaN(value)) {
+    throw new TypeError('Cannot encode NaN');
+  }
   return value;
 }
 
 export function jsonEncode(data: unknown) {
-  return JSON.stringify(data, jsonSerializer).replaceAll(
-    /"(-?9e999)"/g,
-    (_str, grp) => grp,
+  // Undefined, functions and symbols have no JSON representation
+  const json = JSON.stringify(data, jsonSerializer) as string | undefined;
+  if (json === undefined) {
+    throw new TypeError(`Cannot encode a value of type ${typeof data}`);
+  }
+  return json.replaceAll(/"(-?9e999)"/g, (_str, grp) => grp);
+}
+
+/**
+ * Reads the part of a value found at a dotted path, such as `items.0.name`.
+ * An empty path stands for the value itself.
+ */
+export function jsonPath(value: JValue | undefined, path: string) {
+  if (!path) return value;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = Array.isArray(value) ? value[+key] : value[key];
+  }
+  return value;
+}
+
+/**
+ * Compares two values deeply.
+ */
+export function jsonEqual(a?: JValue, b?: JValue): boolean {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a).filter(key => a[key as never] !== undefined);
+  const keysB = Object.keys(b).filter(key => b[key as never] !== undefined);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every(key => jsonEqual(a[key as never], b[key as never]))
   );
 }
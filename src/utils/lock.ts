@@ -0,0 +1,23 @@
+import { MutexRW } from 'mutex-ts';
+import type { ILockProvider } from '../types/lock';
+
+/**
+ * Locks within a single process, with a readers-writer mutex per lock name.
+ */
+export class LockInProcess implements ILockProvider {
+  private m_mutexes = new Map<string, MutexRW>();
+
+  private mutex(name: string) {
+    const mutex = this.m_mutexes.get(name) ?? new MutexRW();
+    this.m_mutexes.set(name, mutex);
+    return mutex;
+  }
+
+  public async read(name: string) {
+    return this.mutex(name).obtainRO();
+  }
+
+  public async write(name: string) {
+    return this.mutex(name).obtainRW();
+  }
+}
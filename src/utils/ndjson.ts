@@ -0,0 +1,42 @@
+import type { ImportSource } from '../types/transfer';
+
+/**
+ * Splits text chunks into lines, skipping blank ones.
+ */
+export async function* readLines(source: ImportSource) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of source) {
+    buffer +=
+      typeof chunk === 'string'
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    for (const line of lines) if (line.trim()) yield line;
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) yield buffer;
+}
+
+/**
+ * Reads the `[key, data]` pairs written by `export`, one per line, where the
+ * data is a value as encoded by the codec of the tree, optionally followed by
+ * the expiry time of the key.
+ */
+export async function* readEntries(source: ImportSource) {
+  for await (const line of readLines(source)) {
+    const entry: unknown = JSON.parse(line);
+    if (
+      !Array.isArray(entry) ||
+      entry.length < 2 ||
+      entry.length > 3 ||
+      typeof entry[0] !== 'string' ||
+      typeof entry[1] !== 'string' ||
+      entry.length === 3 && typeof entry[2] !== 'number'
+    ) {
+      throw new Error(`Invalid import line: ${line}`);
+    }
+    yield entry as [string, string] | [string, string, number];
+  }
+}
@@ -0,0 +1,186 @@
+import type { KeyCompare } from '../types/compare';
+import type { Query } from '../types/query';
+import { Glob } from './glob';
+import type { ValueFilter } from './where';
+import { buildWhere } from './where';
+
+/**
+ * Checks whether a key matches a query, or, for a branch, whether some key
+ * within the branch may match it.
+ */
+export type QueryFilter = (path: string, isBranch: boolean) => boolean;
+
+/**
+ * Checks whether every key starting with a path matches a query.
+ */
+export type QueryCover = (path: string) => boolean;
+
+export function noFilter() {
+  return true;
+}
+
+/**
+ * Translates the cursors of a query, given in iteration order, to key bounds.
+ */
+function cursorBounds({ after, before, sort }: Query) {
+  return sort === -1 ? { gt: before, lt: after } : { gt: after, lt: before };
+}
+
+/**
+ * Extracts the literal prefix every match of an anchored expression starts
+ * with, so that branches outside of it can be skipped.
+ */
+export function regExpPrefix(re: RegExp) {
+  const { source } = re;
+  if (source[0] !== '^' || source.includes('|')) return '';
+  if (re.ignoreCase || re.multiline) return '';
+  let prefix = '';
+  for (let i = 1; i < source.length; ++i) {
+    let c = source[i];
+    if (c === '\\') {
+      c = source[++i] ?? '';
+      if (/\w/.test(c)) break;
+    } else if (/[.^$|?*+()[\]{}]/.test(c)) {
+      break;
+    }
+    // A quantified character is optional or repeated
+    if (/[?*+{]/.test(source[i + 1] ?? '')) break;
+    prefix += c;
+  }
+  return prefix;
+}
+
+function and<T extends unknown[]>(rules: ((...args: T) => boolean)[]) {
+  return (...args: T) => rules.every(rule => rule(...args));
+}
+
+// Under a compare function, the keys within a branch are not in its order,
+// so only the keys themselves are checked against the bounds
+function compareRules(query: Query, compare: KeyCompare) {
+  const cursor = cursorBounds(query);
+  const rules = [] as QueryFilter[];
+  for (const gt of [query.gt, cursor.gt]) {
+    if (gt !== undefined) rules.push((v, t) => t || compare(v, gt) > 0);
+  }
+  const { gte, lte } = query;
+  if (gte !== undefined) rules.push((v, t) => t || compare(v, gte) >= 0);
+  for (const lt of [query.lt, cursor.lt]) {
+    if (lt !== undefined) rules.push((v, t) => t || compare(v, lt) < 0);
+  }
+  if (lte !== undefined) rules.push((v, t) => t || compare(v, lte) <= 0);
+  return rules;
+}
+
+function boundRules(query: Query) {
+  const cursor = cursorBounds(query);
+  const rules = [] as QueryFilter[];
+  // Branches are compared against the bounds trimmed to their length
+  for (const gt of [query.gt, cursor.gt]) {
+    if (gt === undefined) continue;
+    rules.push((v, t) => t ? v >= gt.slice(0, v.length) : v > gt);
+  }
+  const { gte, lte } = query;
+  if (gte !== undefined) {
+    rules.push((v, t) => v >= (t ? gte.slice(0, v.length) : gte));
+  }
+  for (const lt of [query.lt, cursor.lt]) {
+    if (lt === undefined) continue;
+    rules.push((v, t) => t ? v <= lt.slice(0, v.length) : v < lt);
+  }
+  if (lte !== undefined) {
+    rules.push((v, t) => v <= (t ? lte.slice(0, v.length) : lte));
+  }
+  return rules;
+}
+
+export function buildQueryFilter(
+  query?: Query,
+  compare?: KeyCompare,
+): QueryFilter {
+  if (!query) return noFilter;
+  const rules = compare ? compareRules(query, compare) : boundRules(query);
+  const prefixes = [] as string[][];
+  if (query.prefixSome !== undefined) prefixes.push(query.prefixSome);
+  if (query.prefix !== undefined) prefixes.push([query.prefix]);
+  if (query.match !== undefined) prefixes.push([regExpPrefix(query.match)]);
+  for (const some of prefixes) {
+    rules.push((v, t) =>
+      some.some(e => v.slice(0, e.length) === (t ? e.slice(0, v.length) : e)),
+    );
+  }
+  const { prefixNot, suffix, contains, glob, match } = query;
+  if (prefixNot !== undefined) {
+    rules.push(v => v.slice(0, prefixNot.length) !== prefixNot);
+  }
+  // Only the leaves can be checked against the rules below
+  if (suffix !== undefined) rules.push((v, t) => t || v.endsWith(suffix));
+  if (contains !== undefined) {
+    rules.push((v, t) => t || v.includes(contains));
+  }
+  if (glob !== undefined) {
+    const pattern = new Glob(glob);
+    rules.push((v, t) => t ? pattern.viable(v) : pattern.test(v));
+  }
+  if (match !== undefined) {
+    rules.push((v, t) => {
+      match.lastIndex = 0;
+      return t || match.test(v);
+    });
+  }
+  return and(rules);
+}
+
+export function buildQueryCover(
+  query?: Query,
+  compare?: KeyCompare,
+): QueryCover {
+  if (!query) return noFilter;
+  const cursor = cursorBounds(query);
+  const rules = [] as QueryCover[];
+  if (compare && compareRules(query, compare).length) rules.push(() => false);
+  for (const gt of [query.gt, cursor.gt]) {
+    if (gt !== undefined) rules.push(v => v > gt);
+  }
+  const { gte, lte, prefix, prefixNot, prefixSome } = query;
+  if (gte !== undefined) rules.push(v => v >= gte);
+  for (const lt of [query.lt, cursor.lt]) {
+    if (lt !== undefined) rules.push(v => v < lt && !lt.startsWith(v));
+  }
+  if (lte !== undefined) rules.push(v => v < lte && !lte.startsWith(v));
+  if (prefixSome !== undefined) {
+    rules.push(v => prefixSome.some(e => v.startsWith(e)));
+  }
+  if (prefix !== undefined) rules.push(v => v.startsWith(prefix));
+  if (prefixNot !== undefined) {
+    rules.push(v => !v.startsWith(prefixNot) && !prefixNot.startsWith(v));
+  }
+  const { suffix, contains, glob, match } = query;
+  if (suffix !== undefined || match !== undefined) rules.push(() => false);
+  if (contains !== undefined) rules.push(v => v.includes(contains));
+  if (glob !== undefined) {
+    const pattern = new Glob(glob);
+    rules.push(v => pattern.covers(v));
+  }
+  return and(rules);
+}
+
+export interface CompiledQuery {
+  filter: QueryFilter;
+  cover: QueryCover;
+  where?: ValueFilter;
+  select?: string[];
+}
+
+export function compileQuery(
+  query?: Query,
+  compare?: KeyCompare,
+): CompiledQuery {
+  const where = buildWhere(query?.where);
+  return {
+    filter: buildQueryFilter(query, compare),
+    // Conditions on values cannot be checked without reading them
+    cover: where ? () => false : buildQueryCover(query, compare),
+    where,
+    select: query?.select,
+  };
+}
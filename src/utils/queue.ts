@@ -0,0 +1,61 @@
+/**
+ * Buffers the values pushed by a callback until an async iterator pulls them.
+ */
+export class AsyncQueue<T> {
+  private m_items: T[] = [];
+  private m_wake?: () => void;
+  private m_stop?: () => void;
+  private m_stopped = false;
+
+  public push(item: T) {
+    this.m_items.push(item);
+    this.m_wake?.();
+  }
+
+  /**
+   * Yields the buffered values and waits for new ones, until the iterator is
+   * returned.
+   *
+   * @param start A callback to run once the iteration starts, returning a callback to run once it is stopped.
+   * @returns An asynchronous generator that yields the values in the order they were pushed.
+   */
+  public drain(start: () => () => void): AsyncGenerator<T, void, unknown> {
+    const items = this.pull(start);
+    const finish = items.return.bind(items);
+    // A generator runs return() only once the pending pull is settled, which
+    // may never happen: the iteration is stopped first
+    items.return = value => {
+      this.stop();
+      return finish(value);
+    };
+    return items;
+  }
+
+  private async *pull(start: () => () => void) {
+    // Generators run from the first pull: an iterator never pulled never
+    // starts, and so never has to be stopped
+    if (this.m_stopped) return;
+    this.m_stop = start();
+    try {
+      for (;;) {
+        while (!this.m_items.length) {
+          if (this.m_stopped) return;
+          await new Promise<void>(resolve => {
+            this.m_wake = resolve;
+          });
+        }
+        yield this.m_items.shift()!;
+      }
+    } finally {
+      this.stop();
+    }
+  }
+
+  private stop() {
+    this.m_stopped = true;
+    this.m_stop?.();
+    this.m_stop = undefined;
+    // Settles the pull waiting for a value, if any
+    this.m_wake?.();
+  }
+}
@@ -0,0 +1,106 @@
+import type { TupleElement, TupleKey } from '../types/tuple';
+
+// Each element starts with a tag, the tags sorting in the order of the types.
+// Numbers and dates are written as the hex digits of their IEEE 754 bits,
+// flipped so that they sort as the numbers do. Strings end with a NUL, and
+// their own NULs are escaped so that a string sorts before its extensions
+const FALSE = '0';
+const TRUE = '1';
+const DATE = 'd';
+const NUMBER = 'n';
+const STRING = 's';
+const END = '\0';
+const ESCAPE = '\xff';
+const NUMBER_LENGTH = 16;
+
+function encodeNumber(n: number) {
+  const view = new DataView(new ArrayBuffer(8));
+  // Zero and negative zero are the same key
+  view.setFloat64(0, Object.is(n, -0) ? 0 : n);
+  let hi = view.getUint32(0);
+  let lo = view.getUint32(4);
+  if (hi >>> 31) {
+    hi = ~hi >>> 0;
+    lo = ~lo >>> 0;
+  } else {
+    hi = (hi | 0x80000000) >>> 0;
+  }
+  return hi.toString(16).padStart(8, '0') + lo.toString(16).padStart(8, '0');
+}
+
+function decodeNumber(hex: string) {
+  let hi = parseInt(hex.slice(0, 8), 16);
+  let lo = parseInt(hex.slice(8), 16);
+  if (hi >>> 31) {
+    hi = (hi & 0x7fffffff) >>> 0;
+  } else {
+    hi = ~hi >>> 0;
+    lo = ~lo >>> 0;
+  }
+  const view = new DataView(new ArrayBuffer(8));
+  view.setUint32(0, hi);
+  view.setUint32(4, lo);
+  return view.getFloat64(0);
+}
+
+function encodeElement(element: TupleElement) {
+  switch (typeof element) {
+    case 'boolean':
+      return element ? TRUE : FALSE;
+    case 'number':
+      // NaN has no place in the order of the numbers
+      if (isNaN(element)) break;
+      return NUMBER + encodeNumber(element);
+    case 'string':
+      return STRING + element.replaceAll(END, END + ESCAPE) + END;
+  }
+  if (element instanceof Date && !isNaN(+element)) {
+    return DATE + encodeNumber(+element);
+  }
+  throw new Error(`Invalid tuple element: ${String(element)}`);
+}
+
+/**
+ * Encodes a tuple into a string key, the string keys sorting as the tuples.
+ *
+ * @param tuple The elements of the key.
+ * @returns The string key.
+ */
+export function encodeTuple(tuple: TupleKey) {
+  return tuple.map(encodeElement).join('');
+}
+
+/**
+ * Decodes a string key written by `encodeTuple`.
+ *
+ * @param key The string key.
+ * @returns The elements of the key.
+ */
+export function decodeTuple(key: string) {
+  const tuple: TupleKey = [];
+  for (let i = 0; i < key.length;) {
+    const tag = key[i++];
+    if (tag === FALSE || tag === TRUE) {
+      tuple.push(tag === TRUE);
+    } else if (tag === NUMBER || tag === DATE) {
+      const hex = key.slice(i, i += NUMBER_LENGTH);
+      if (!/^[\da-f]{16}$/.test(hex)) break;
+      const n = decodeNumber(hex);
+      tuple.push(tag === DATE ? new Date(n) : n);
+    } else if (tag === STRING) {
+      let s = '';
+      for (; i < key.length; ++i) {
+        if (key[i] !== END) s += key[i];
+        else if (key[i + 1] === ESCAPE) s += key[i++];
+        else break;
+      }
+      if (key[i++] !== END) break;
+      tuple.push(s);
+    } else {
+      break;
+    }
+    if (i === key.length) return tuple;
+  }
+  if (!key) return tuple;
+  throw new Error(`Invalid tuple key: ${JSON.stringify(key)}`);
+}
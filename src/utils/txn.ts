@@ -0,0 +1,132 @@
+import type { IStore, JValue, StoreOp } from '../types/store';
+import type { NodeCache } from './cache';
+
+/**
+ * Buffers store writes so that they can be committed as a single unit.
+ * Reads see the pending writes; values read from the store are cloned, so
+ * in-place mutations never leak into the store before commit.
+ */
+export class Txn {
+  private m_writes = new Map<string, JValue | undefined>();
+  private m_hooks: (() => void)[] = [];
+  private m_cache?: NodeCache;
+
+  /**
+   * Creates a new transaction over a store.
+   *
+   * @param store The store to read from and commit to.
+   * @param cache An optional cache of the store values, kept up to date on commit.
+   */
+  public constructor(
+    public store: IStore,
+    cache?: NodeCache,
+  ) {
+    this.m_cache = cache;
+  }
+
+  public async get<T extends JValue>(key: string) {
+    if (this.m_writes.has(key)) return this.m_writes.get(key) as T | undefined;
+    const cached = this.m_cache?.get(key);
+    const value = cached
+      ? (cached.value as T | undefined)
+      : await this.store.get<T>(key);
+    if (!cached) this.m_cache?.set(key, value);
+    return value === undefined ? undefined : structuredClone(value);
+  }
+
+  public async set<T extends JValue>(key: string, value: T) {
+    this.m_writes.set(key, value);
+  }
+
+  public async del(key: string) {
+    this.m_writes.set(key, undefined);
+  }
+
+  /**
+   * Drops the pending write of a key, so that it keeps its committed value.
+   *
+   * @param key The key to revert.
+   */
+  public revert(key: string) {
+    this.m_writes.delete(key);
+  }
+
+  /**
+   * Registers a callback to run once the transaction is committed. Callbacks
+   * run in the order they were registered, and not at all if the commit fails.
+   *
+   * @param hook The callback to run.
+   */
+  public onCommit(hook: () => void) {
+    this.m_hooks.push(hook);
+  }
+
+  /**
+   * Writes every buffered change to the store, or to the cache in write-back
+   * mode. A full write-back cache is flushed first, so that a store failure
+   * fails the commit before its writes are kept.
+   */
+  public async commit() {
+    const ops = [...this.m_writes].map(([key, value]): StoreOp =>
+      value === undefined ? { type: 'del', key } : { type: 'set', key, value },
+    );
+    this.m_writes.clear();
+    const hooks = this.m_hooks.splice(0);
+    if (this.m_cache?.writeBack) {
+      if (this.m_cache.full) await flushCache(this.store, this.m_cache);
+      this.m_cache.stage(ops);
+    } else {
+      await writeOps(this.store, ops);
+      for (const op of ops) {
+        this.m_cache?.set(op.key, op.type === 'set' ? op.value : undefined);
+      }
+    }
+    for (const hook of hooks) hook();
+  }
+}
+
+/**
+ * Writes the pending writes of a write-back cache to the store. They stay
+ * pending if the store fails.
+ */
+export async function flushCache(store: IStore, cache: NodeCache) {
+  const ops = cache.take();
+  try {
+    await writeOps(store, ops);
+  } catch (e) {
+    cache.stage(ops);
+    throw e;
+  }
+}
+
+// Uses the store's own `batch` when available, otherwise applies the writes
+// one by one and restores the previous values if any of them fails
+async function writeOps(store: IStore, ops: StoreOp[]) {
+  if (!ops.length) return;
+  if (store.batch) return store.batch(ops);
+  await applyJournaled(store, ops);
+}
+
+async function applyJournaled(store: IStore, ops: StoreOp[]) {
+  const journal: StoreOp[] = [];
+  try {
+    for (const op of ops) {
+      const value = await store.get(op.key);
+      journal.push(
+        value === undefined
+          ? { type: 'del', key: op.key }
+          : { type: 'set', key: op.key, value },
+      );
+      await apply(store, op);
+    }
+  } catch (e) {
+    for (const op of journal.reverse()) {
+      await apply(store, op).catch(() => {});
+    }
+    throw e;
+  }
+}
+
+function apply(store: IStore, op: StoreOp) {
+  return op.type === 'set' ? store.set(op.key, op.value) : store.del(op.key);
+}
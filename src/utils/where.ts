@@ -0,0 +1,67 @@
+import type { Query, WhereCondition } from '../types/query';
+import type { JObject, JValue } from '../types/store';
+import { jsonEqual, jsonPath } from './json';
+
+/**
+ * Checks whether a value, stored under a key, matches a query.
+ */
+export type ValueFilter = (value: JValue, key: string) => boolean;
+
+function compare(
+  value: JValue | undefined,
+  bound: number | string,
+  check: (a: number | string, b: number | string) => boolean,
+) {
+  // Numbers only compare to numbers and strings to strings
+  return typeof value === typeof bound && check(value as typeof bound, bound);
+}
+
+function buildCondition(condition: WhereCondition | JValue) {
+  if (condition === null || typeof condition !== 'object') {
+    return (v?: JValue) => v === condition;
+  }
+  const c = condition as WhereCondition;
+  const rules = [] as ((v?: JValue) => boolean)[];
+  if ('eq' in c) rules.push(v => jsonEqual(v, c.eq));
+  if ('ne' in c) rules.push(v => !jsonEqual(v, c.ne));
+  if (c.in) rules.push(v => c.in!.some(e => jsonEqual(v, e)));
+  if (c.nin) rules.push(v => !c.nin!.some(e => jsonEqual(v, e)));
+  const { gt, gte, lt, lte, exists } = c;
+  if (gt !== undefined) rules.push(v => compare(v, gt, (a, b) => a > b));
+  if (gte !== undefined) rules.push(v => compare(v, gte, (a, b) => a >= b));
+  if (lt !== undefined) rules.push(v => compare(v, lt, (a, b) => a < b));
+  if (lte !== undefined) rules.push(v => compare(v, lte, (a, b) => a <= b));
+  if (exists !== undefined) rules.push(v => v !== undefined === exists);
+  return (v?: JValue) => rules.every(rule => rule(v));
+}
+
+export function buildWhere(where: Query['where']): ValueFilter | undefined {
+  if (where === undefined) return undefined;
+  if (typeof where === 'function') return where;
+  const rules = Object.entries(where).map(([path, condition]) => {
+    const check = buildCondition(condition);
+    return (value: JValue) => check(jsonPath(value, path));
+  });
+  return value => rules.every(rule => rule(value));
+}
+
+/**
+ * Copies the parts of a value found at given dotted paths into a new object.
+ */
+export function select(value: JValue, paths: string[]) {
+  const result: JObject = {};
+  for (const path of paths) {
+    const v = jsonPath(value, path);
+    if (v === undefined) continue;
+    const keys = path.split('.');
+    const last = keys.pop()!;
+    let target = result;
+    for (const key of keys) {
+      const next = target[key];
+      target = target[key] =
+        next && typeof next === 'object' && !Array.isArray(next) ? next : {};
+    }
+    target[last] = v;
+  }
+  return result;
+}
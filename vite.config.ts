@@ -10,6 +10,10 @@ export default defineConfig({
       name: 'index',
       fileName: 'index',
     },
+    rollupOptions: {
+      // Node.js modules are loaded on demand by the stores needing them
+      external: [/^node:/],
+    },
   },
   plugins: [dts({ exclude: ['**/*.test.ts'], rollupTypes: true })],
 });